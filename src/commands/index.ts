@@ -1,10 +1,43 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { GitService } from '../services/gitService';
 import { AIService } from '../services/aiService';
+import { AnalysisCache } from '../services/analysisCache';
 import { DiffViewProvider } from '../providers/diffViewProvider';
 import { AnalysisViewProvider } from '../providers/analysisViewProvider';
+import { ConflictViewProvider } from '../providers/conflictViewProvider';
 import { ExtensionState } from '../models/extensionState';
-import { GitReference, GitReferenceType } from '../models/gitTypes';
+import {
+  GitReference,
+  GitReferenceType,
+  ComparisonMode,
+  ComparisonOptions,
+  BranchTracking,
+  DiffFile,
+  DiffAlgorithm,
+  FileRevision,
+  GitCommit,
+  HunkSelection,
+  InlineDiffGranularity,
+  PathComparison
+} from '../models/gitTypes';
+import {
+  getCommitRef,
+  getMergeParentRef,
+  getParentRef,
+  getRefLabel,
+  getStashRef,
+  getStashParentRef
+} from '../utils/refUtils';
+import { parsePatternList } from '../utils/pathFilter';
+import { applySelections, buildPatch } from '../utils/patchBuilder';
+import { parseGitDiff } from '../utils/diffParser';
+
+// Workspace state key of the recently used revision expressions
+const RECENT_EXPRESSIONS_KEY = 'intellidiff.recentRevisionExpressions';
+
+// How many revision expressions are remembered
+const MAX_RECENT_EXPRESSIONS = 10;
 
 /**
  * Register all extension commands
@@ -13,39 +46,55 @@ export function registerCommands(
   context: vscode.ExtensionContext,
   gitService: GitService,
   aiService: AIService,
+  analysisCache: AnalysisCache,
   diffViewProvider: DiffViewProvider,
   analysisViewProvider: AnalysisViewProvider,
+  conflictViewProvider: ConflictViewProvider,
   extensionState: ExtensionState
 ): void {
   // Command to compare Git versions
   const compareDiffCommand = vscode.commands.registerCommand('intellidiff.compareDiff', async () => {
     try {
+      const repository = await selectRepository(gitService, extensionState);
+      if (!repository) {
+        return;
+      }
+      
       if (!gitService.isGitAvailable()) {
         vscode.window.showErrorMessage('Git is not available in the current workspace');
         return;
       }
       
       // Get Git references
-      const baseRef = await selectGitReference('Select base reference', gitService);
+      const baseRef = await selectGitReference('Select base reference', gitService, context.workspaceState);
       if (!baseRef) {
         return;
       }
       
-      const compareRef = await selectGitReference('Select compare reference', gitService);
+      const compareRef = await selectGitReference('Select compare reference', gitService, context.workspaceState);
       if (!compareRef) {
         return;
       }
       
+      const mode = await selectComparisonMode(baseRef, compareRef);
+      if (!mode) {
+        return;
+      }
+      
       // Update extension state
+      extensionState.activeRepository = repository;
+      const options: ComparisonOptions = { ...extensionState.comparisonOptions, mode };
       extensionState.baseRef = baseRef;
       extensionState.compareRef = compareRef;
+      extensionState.comparisonOptions = options;
+      extensionState.rangeReview = undefined;
       extensionState.isComparing = true;
       
       // Compare references and show diff view
       vscode.window.showInformationMessage(`Comparing ${baseRef.name} with ${compareRef.name}`);
       
       // Load the diff view
-      await diffViewProvider.loadDiffView(baseRef, compareRef);
+      await diffViewProvider.loadDiffView(baseRef, compareRef, options);
       
       // Focus the view
       vscode.commands.executeCommand('intellidiffExplorer.focus');
@@ -55,61 +104,1185 @@ export function registerCommands(
       extensionState.isComparing = false;
       console.error('Error in compareDiff command:', error);
       vscode.window.showErrorMessage(`Error comparing Git versions: ${error}`);
+    } finally {
+      // Back to the shown comparison's repository if the command was cancelled
+      gitService.setActiveRepository(extensionState.activeRepository);
+    }
+  });
+  
+  // Command to inspect a stash against the commit it was made on, the working tree or another reference
+  const compareStashCommand = vscode.commands.registerCommand('intellidiff.compareStash', async () => {
+    try {
+      const repository = await selectRepository(gitService, extensionState);
+      if (!repository) {
+        return;
+      }
+      
+      const stashRef = await selectStash('Select stash to inspect', gitService);
+      if (!stashRef) {
+        return;
+      }
+      
+      const targetItems = [
+        { label: 'Parent', description: 'The commit the stash was made on', target: 'parent' },
+        { label: 'Working Tree', description: 'Differences from the current working tree', target: 'workingTree' },
+        { label: 'Other reference…', target: 'other' }
+      ];
+      
+      const selectedTarget = await vscode.window.showQuickPick(targetItems, {
+        placeHolder: `Compare ${stashRef.name} with`
+      });
+      
+      if (!selectedTarget) {
+        return;
+      }
+      
+      let baseRef: GitReference | undefined;
+      switch (selectedTarget.target) {
+        case 'parent':
+          baseRef = getStashParentRef(stashRef);
+          break;
+        case 'workingTree':
+          baseRef = { type: GitReferenceType.WORKING_TREE, name: 'Working Tree' };
+          break;
+        default:
+          baseRef = await selectGitReference('Select base reference', gitService, context.workspaceState);
+      }
+      
+      if (!baseRef) {
+        return;
+      }
+      
+      extensionState.activeRepository = repository;
+      const options: ComparisonOptions = { ...extensionState.comparisonOptions, mode: ComparisonMode.DIRECT };
+      
+      extensionState.baseRef = baseRef;
+      extensionState.compareRef = stashRef;
+      extensionState.comparisonOptions = options;
+      extensionState.rangeReview = undefined;
+      extensionState.isComparing = true;
+      
+      await diffViewProvider.loadDiffView(baseRef, stashRef, options);
+      
+      // Focus the view
+      vscode.commands.executeCommand('intellidiffExplorer.focus');
+      
+      extensionState.isComparing = false;
+    } catch (error) {
+      extensionState.isComparing = false;
+      console.error('Error in compareStash command:', error);
+      vscode.window.showErrorMessage(`Error comparing stash: ${error}`);
+    } finally {
+      // Back to the shown comparison's repository if the command was cancelled
+      gitService.setActiveRepository(extensionState.activeRepository);
+    }
+  });
+  
+  // Command to compare the checked-out branch with the remote-tracking branch it follows
+  const compareWithUpstreamCommand = vscode.commands.registerCommand('intellidiff.compareWithUpstream', async () => {
+    try {
+      const repository = await selectRepository(gitService, extensionState);
+      if (!repository) {
+        return;
+      }
+      
+      const branch = await gitService.getCurrentBranchTracking();
+      if (!branch) {
+        vscode.window.showErrorMessage('HEAD is not on a branch, so it has no upstream');
+        return;
+      }
+      
+      if (!branch.upstream || branch.upstreamGone) {
+        vscode.window.showErrorMessage(
+          branch.upstream
+            ? `The upstream of ${branch.name}, ${branch.upstream}, no longer exists`
+            : `${branch.name} has no upstream branch`
+        );
+        return;
+      }
+      
+      const baseRef: GitReference = { type: GitReferenceType.BRANCH, name: branch.upstream };
+      const compareRef: GitReference = { type: GitReferenceType.BRANCH, name: branch.name };
+      extensionState.activeRepository = repository;
+      const options: ComparisonOptions = { ...extensionState.comparisonOptions, mode: ComparisonMode.DIRECT };
+      
+      extensionState.baseRef = baseRef;
+      extensionState.compareRef = compareRef;
+      extensionState.comparisonOptions = options;
+      extensionState.rangeReview = undefined;
+      extensionState.isComparing = true;
+      
+      vscode.window.showInformationMessage(
+        `Comparing ${branch.name} with ${branch.upstream}: ${branch.ahead} ahead, ${branch.behind} behind`
+      );
+      
+      await diffViewProvider.loadDiffView(baseRef, compareRef, options);
+      
+      // Focus the view
+      vscode.commands.executeCommand('intellidiffExplorer.focus');
+      
+      extensionState.isComparing = false;
+    } catch (error) {
+      extensionState.isComparing = false;
+      console.error('Error in compareWithUpstream command:', error);
+      vscode.window.showErrorMessage(`Error comparing with upstream: ${error}`);
+    } finally {
+      // Back to the shown comparison's repository if the command was cancelled
+      gitService.setActiveRepository(extensionState.activeRepository);
+    }
+  });
+  
+  // Command to review a commit range one commit at a time
+  const reviewRangeCommand = vscode.commands.registerCommand('intellidiff.reviewRange', async () => {
+    try {
+      const repository = await selectRepository(gitService, extensionState);
+      if (!repository) {
+        return;
+      }
+      
+      const baseRef = await selectGitReference('Select range base (excluded)', gitService, context.workspaceState, true);
+      if (!baseRef) {
+        return;
+      }
+      
+      const tipRef = await selectGitReference('Select range tip (included)', gitService, context.workspaceState, true);
+      if (!tipRef) {
+        return;
+      }
+      
+      const commits = await gitService.getCommitsInRange(baseRef, tipRef);
+      if (commits.length === 0) {
+        vscode.window.showInformationMessage(`No commits between ${baseRef.name} and ${tipRef.name}`);
+        return;
+      }
+      
+      extensionState.activeRepository = repository;
+      extensionState.rangeReview = { baseRef, tipRef, commits, index: 0 };
+      await showReviewCommit(0);
+      
+      // Focus the view
+      vscode.commands.executeCommand('intellidiffExplorer.focus');
+    } catch (error) {
+      console.error('Error in reviewRange command:', error);
+      vscode.window.showErrorMessage(`Error reviewing commit range: ${error}`);
+    } finally {
+      // Back to the shown comparison's repository if the command was cancelled
+      gitService.setActiveRepository(extensionState.activeRepository);
+    }
+  });
+  
+  // Commands to step through the commits of a range review
+  const previousCommitCommand = vscode.commands.registerCommand('intellidiff.previousCommit', async () => {
+    const review = extensionState.rangeReview;
+    if (review && review.index > 0) {
+      await showReviewCommit(review.index - 1);
+    }
+  });
+  
+  const nextCommitCommand = vscode.commands.registerCommand('intellidiff.nextCommit', async () => {
+    const review = extensionState.rangeReview;
+    if (review && review.index < review.commits.length - 1) {
+      await showReviewCommit(review.index + 1);
+    }
+  });
+  
+  // Command to review a merge commit through its combined diff against all parents
+  const reviewMergeCommand = vscode.commands.registerCommand('intellidiff.reviewMerge', async () => {
+    try {
+      const repository = await selectRepository(gitService, extensionState);
+      if (!repository) {
+        return;
+      }
+      
+      const merges = await gitService.getMergeCommits();
+      if (merges.length === 0) {
+        vscode.window.showInformationMessage('No merge commits found');
+        return;
+      }
+      
+      const selectedMerge = await vscode.window.showQuickPick(
+        merges.map(commit => ({
+          label: commit.shortHash,
+          description: commit.message,
+          detail: `${commit.author}, ${commit.date.toLocaleString()}`,
+          commit
+        })),
+        { placeHolder: 'Select merge commit to review' }
+      );
+      
+      if (!selectedMerge) {
+        return;
+      }
+      
+      const baseRef = getParentRef(selectedMerge.commit);
+      const compareRef = getCommitRef(selectedMerge.commit);
+      extensionState.activeRepository = repository;
+      const options: ComparisonOptions = { ...extensionState.comparisonOptions, mode: ComparisonMode.COMBINED };
+      
+      extensionState.baseRef = baseRef;
+      extensionState.compareRef = compareRef;
+      extensionState.comparisonOptions = options;
+      extensionState.rangeReview = undefined;
+      extensionState.isComparing = true;
+      
+      await diffViewProvider.loadDiffView(baseRef, compareRef, options);
+      
+      // Focus the view
+      vscode.commands.executeCommand('intellidiffExplorer.focus');
+      
+      extensionState.isComparing = false;
+    } catch (error) {
+      extensionState.isComparing = false;
+      console.error('Error in reviewMerge command:', error);
+      vscode.window.showErrorMessage(`Error reviewing merge commit: ${error}`);
+    } finally {
+      // Back to the shown comparison's repository if the command was cancelled
+      gitService.setActiveRepository(extensionState.activeRepository);
+    }
+  });
+  
+  // Command to switch a merge commit between its combined diff and a diff against one parent
+  const chooseMergeParentCommand = vscode.commands.registerCommand('intellidiff.chooseMergeParent', async () => {
+    const compareRef = extensionState.compareRef;
+    if (!compareRef) {
+      vscode.window.showInformationMessage('Please compare a merge commit first');
+      return;
+    }
+    
+    try {
+      const parents = await gitService.getParents(compareRef);
+      if (parents.length < 2) {
+        vscode.window.showInformationMessage(`${getRefLabel(compareRef)} is not a merge commit`);
+        return;
+      }
+      
+      const parentCommits = await Promise.all(parents.map(parent => gitService.resolveRevision(parent)));
+      const parentItems = [
+        {
+          label: 'All Parents',
+          description: 'Combined diff',
+          detail: 'Only files and lines the merge did not take unchanged from a parent',
+          parentIndex: -1
+        },
+        ...parents.map((parent, i) => ({
+          label: `Parent ${i + 1}`,
+          description: parentCommits[i]?.message,
+          detail: parent.substring(0, 7),
+          parentIndex: i
+        }))
+      ];
+      
+      const selectedParent = await vscode.window.showQuickPick(parentItems, {
+        placeHolder: `Compare ${getRefLabel(compareRef)} with`
+      });
+      
+      if (!selectedParent) {
+        return;
+      }
+      
+      // The combined diff keeps the first parent as its base
+      const parentIndex = Math.max(selectedParent.parentIndex, 0);
+      const baseRef = getMergeParentRef(compareRef, parents[parentIndex], parentIndex + 1);
+      const options: ComparisonOptions = {
+        ...extensionState.comparisonOptions,
+        mode: selectedParent.parentIndex < 0 ? ComparisonMode.COMBINED : ComparisonMode.DIRECT
+      };
+      
+      extensionState.baseRef = baseRef;
+      extensionState.comparisonOptions = options;
+      extensionState.isComparing = true;
+      
+      await diffViewProvider.loadDiffView(baseRef, compareRef, options, extensionState.rangeReview);
+      
+      extensionState.isComparing = false;
+      
+      await refreshAnalysis();
+    } catch (error) {
+      extensionState.isComparing = false;
+      console.error('Error in chooseMergeParent command:', error);
+      vscode.window.showErrorMessage(`Error comparing merge with parent: ${error}`);
+    }
+  });
+  
+  /**
+   * Show one commit of the range review against its parent.
+   * Merge commits are shown as a combined diff against all their parents.
+   * The analyzed file stays selected if the commit touches it too.
+   */
+  async function showReviewCommit(index: number): Promise<void> {
+    const review = extensionState.rangeReview;
+    if (!review) {
+      return;
+    }
+    
+    try {
+      review.index = index;
+      const commit = review.commits[index];
+      const baseRef = getParentRef(commit);
+      const compareRef = getCommitRef(commit);
+      const isMerge = (await gitService.getParents(compareRef)).length > 1;
+      const options: ComparisonOptions = {
+        ...extensionState.comparisonOptions,
+        mode: isMerge ? ComparisonMode.COMBINED : ComparisonMode.DIRECT
+      };
+      
+      extensionState.baseRef = baseRef;
+      extensionState.compareRef = compareRef;
+      extensionState.comparisonOptions = options;
+      extensionState.isComparing = true;
+      
+      await diffViewProvider.loadDiffView(baseRef, compareRef, options, review);
+      
+      extensionState.isComparing = false;
+      
+      await refreshAnalysis();
+    } catch (error) {
+      extensionState.isComparing = false;
+      console.error('Error showing review commit:', error);
+      vscode.window.showErrorMessage(`Error showing commit: ${error}`);
+    }
+  }
+  
+  // Command to diff any two revisions of a single file
+  const fileHistoryCommand = vscode.commands.registerCommand('intellidiff.fileHistory', async (filePath?: string) => {
+    try {
+      // Without a path from the explorer, use the active editor's file
+      let historyPath = filePath;
+      let repository = extensionState.activeRepository;
+      
+      if (!historyPath) {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+          vscode.window.showInformationMessage('Please open a file or select one in the IntelliDiff explorer');
+          return;
+        }
+        
+        await gitService.getRepositories();
+        const absolutePath = editor.document.uri.fsPath;
+        repository = gitService.getRepositoryForPath(absolutePath);
+        if (!repository) {
+          vscode.window.showErrorMessage('The active file is not in a Git repository');
+          return;
+        }
+        
+        gitService.setActiveRepository(repository);
+        historyPath = path.relative(repository, absolutePath).split(path.sep).join('/');
+      }
+      
+      const revisions = await gitService.getFileHistory(historyPath);
+      if (revisions.length === 0) {
+        vscode.window.showInformationMessage(`No commits found for ${historyPath}`);
+        return;
+      }
+      
+      const selected = await selectFileRevisions(historyPath, revisions);
+      if (!selected) {
+        return;
+      }
+      
+      // A file of another repository makes that one active, so the explorer
+      // shows its comparison instead of one the analysis does not belong to
+      if (repository !== extensionState.activeRepository) {
+        extensionState.activeRepository = repository;
+        if (extensionState.baseRef && extensionState.compareRef) {
+          await diffViewProvider.loadDiffView(
+            extensionState.baseRef,
+            extensionState.compareRef,
+            extensionState.comparisonOptions,
+            extensionState.rangeReview
+          );
+        } else {
+          diffViewProvider.clear();
+        }
+      }
+      
+      // Revisions of a file are compared directly, with the whitespace and diff options in effect
+      const [base, compare] = selected;
+      const options: ComparisonOptions = { ...extensionState.comparisonOptions, mode: ComparisonMode.DIRECT };
+      await analysisViewProvider.analyzeFile(base.ref, compare.ref, compare.path, options, base.path);
+      
+      // Focus the view
+      vscode.commands.executeCommand('intellidiffAnalysis.focus');
+    } catch (error) {
+      console.error('Error in fileHistory command:', error);
+      vscode.window.showErrorMessage(`Error loading file history: ${error}`);
+    } finally {
+      // Back to the shown comparison's repository if the command was cancelled
+      gitService.setActiveRepository(extensionState.activeRepository);
+    }
+  });
+  
+  /**
+   * Re-run the analysis of the selected file after the comparison changed,
+   * or clear it if the file is no longer part of the comparison
+   */
+  async function refreshAnalysis(): Promise<void> {
+    if (extensionState.currentFile && diffViewProvider.hasFile(extensionState.currentFile)) {
+      await vscode.commands.executeCommand('intellidiff.analyzeChanges');
+    } else {
+      extensionState.currentFile = undefined;
+      analysisViewProvider.clear();
+    }
+  }
+  
+  /**
+   * Reload the current comparison with changed options
+   */
+  async function applyComparisonOptions(options: ComparisonOptions): Promise<void> {
+    extensionState.comparisonOptions = options;
+    
+    if (!extensionState.baseRef || !extensionState.compareRef) {
+      return;
+    }
+    
+    try {
+      extensionState.isComparing = true;
+      await diffViewProvider.loadDiffView(
+        extensionState.baseRef,
+        extensionState.compareRef,
+        options,
+        extensionState.rangeReview
+      );
+      extensionState.isComparing = false;
+      
+      await refreshAnalysis();
+    } catch (error) {
+      extensionState.isComparing = false;
+      console.error('Error updating comparison options:', error);
+      vscode.window.showErrorMessage(`Error updating comparison: ${error}`);
+    }
+  }
+  
+  // Command to toggle a whitespace option of the current comparison
+  const toggleComparisonOptionCommand = vscode.commands.registerCommand(
+    'intellidiff.toggleComparisonOption',
+    async (option: string) => {
+      if (!isWhitespaceOption(option)) {
+        return;
+      }
+      
+      await applyComparisonOptions({
+        ...extensionState.comparisonOptions,
+        [option]: !extensionState.comparisonOptions[option]
+      });
+    }
+  );
+  
+  // Command to choose the diff algorithm of the current comparison
+  const setDiffAlgorithmCommand = vscode.commands.registerCommand(
+    'intellidiff.setDiffAlgorithm',
+    async (algorithm?: string) => {
+      let selected = Object.values(DiffAlgorithm).find(a => a === algorithm);
+      
+      if (!selected) {
+        const algorithmItems = Object.values(DiffAlgorithm).map(a => ({ label: a, algorithm: a }));
+        const selectedItem = await vscode.window.showQuickPick(algorithmItems, {
+          placeHolder: 'Select diff algorithm'
+        });
+        
+        if (!selectedItem) {
+          return;
+        }
+        selected = selectedItem.algorithm;
+      }
+      
+      await applyComparisonOptions({ ...extensionState.comparisonOptions, algorithm: selected });
+    }
+  );
+  
+  // Command to choose word or character segments inside modified lines
+  const setInlineGranularityCommand = vscode.commands.registerCommand(
+    'intellidiff.setInlineGranularity',
+    async (granularity: string) => {
+      const selected = Object.values(InlineDiffGranularity).find(g => g === granularity);
+      if (!selected) {
+        return;
+      }
+      
+      await applyComparisonOptions({ ...extensionState.comparisonOptions, inlineGranularity: selected });
+    }
+  );
+  
+  // Command to limit the current comparison to some paths.
+  // Without a filter argument the include and exclude patterns are asked for.
+  const setPathFilterCommand = vscode.commands.registerCommand(
+    'intellidiff.setPathFilter',
+    async (filter?: PathFilter) => {
+      const current = extensionState.comparisonOptions;
+      
+      if (!filter) {
+        const include = await vscode.window.showInputBox({
+          title: 'Include paths',
+          prompt: 'Comma-separated globs or pathspecs of the files to compare; leave empty for all files',
+          placeHolder: 'src/**, docs',
+          value: (current.includePaths || []).join(', ')
+        });
+        if (include === undefined) {
+          return;
+        }
+        
+        const exclude = await vscode.window.showInputBox({
+          title: 'Exclude paths',
+          prompt: 'Comma-separated globs or pathspecs of files to leave out',
+          placeHolder: 'dist, **/*.lock, vendor/**',
+          value: (current.excludePaths || []).join(', ')
+        });
+        if (exclude === undefined) {
+          return;
+        }
+        
+        filter = {
+          includePaths: parsePatternList(include),
+          excludePaths: parsePatternList(exclude),
+          ignoreDefaultExcludes: current.ignoreDefaultExcludes
+        };
+      }
+      
+      await applyComparisonOptions({ ...current, ...filter });
+    }
+  );
+  
+  // Command to show every file of the current comparison again,
+  // including the ones left out by the workspace's default excludes
+  const clearPathFilterCommand = vscode.commands.registerCommand('intellidiff.clearPathFilter', async () => {
+    await applyComparisonOptions({
+      ...extensionState.comparisonOptions,
+      includePaths: undefined,
+      excludePaths: undefined,
+      ignoreDefaultExcludes: true
+    });
+  });
+  
+  // Command to analyze current changes with AI
+  const analyzeChangesCommand = vscode.commands.registerCommand('intellidiff.analyzeChanges', async () => {
+    try {
+      if (!gitService.isGitAvailable()) {
+        vscode.window.showErrorMessage('Git is not available in the current workspace');
+        return;
+      }
+      
+      if (!extensionState.baseRef || !extensionState.compareRef) {
+        vscode.window.showInformationMessage('Please compare Git versions first');
+        await vscode.commands.executeCommand('intellidiff.compareDiff');
+        return;
+      }
+      
+      if (!extensionState.currentFile) {
+        vscode.window.showInformationMessage('Please select a file to analyze');
+        return;
+      }
+      
+      extensionState.isAnalyzing = true;
+      vscode.window.showInformationMessage(`Analyzing changes in ${extensionState.currentFile}`);
+      
+      // Renamed and copied files are diffed against their old path
+      const file = diffViewProvider.getFile(extensionState.currentFile);
+      
+      // Load analysis view
+      await analysisViewProvider.analyzeFile(
+        extensionState.baseRef,
+        extensionState.compareRef,
+        extensionState.currentFile,
+        extensionState.comparisonOptions,
+        file ? file.oldPath : extensionState.currentFile
+      );
+      
+      // Focus the view
+      vscode.commands.executeCommand('intellidiffAnalysis.focus');
+      
+      extensionState.isAnalyzing = false;
+    } catch (error) {
+      extensionState.isAnalyzing = false;
+      console.error('Error in analyzeChanges command:', error);
+      vscode.window.showErrorMessage(`Error analyzing changes: ${error}`);
+    }
+  });
+  
+  // Command to select a file for analysis
+  const selectFileCommand = vscode.commands.registerCommand('intellidiff.selectFile', async (filePath: string) => {
+    if (!filePath) {
+      return;
+    }
+    
+    extensionState.currentFile = filePath;
+    vscode.window.showInformationMessage(`Selected file: ${filePath}`);
+    
+    // Automatically show analysis
+    await vscode.commands.executeCommand('intellidiff.analyzeChanges');
+  });
+  
+  // Command to pick one of the files with merge conflicts and open it in the conflict viewer
+  const showConflictsCommand = vscode.commands.registerCommand('intellidiff.showConflicts', async () => {
+    try {
+      if (!gitService.isGitAvailable()) {
+        vscode.window.showErrorMessage('Git is not available in the current workspace');
+        return;
+      }
+      
+      const paths = await gitService.getUnmergedPaths();
+      if (paths.length === 0) {
+        vscode.window.showInformationMessage('There are no merge conflicts');
+        return;
+      }
+      
+      const filePath = paths.length === 1 ? paths[0] : await vscode.window.showQuickPick(paths, {
+        placeHolder: 'Select a conflicted file'
+      });
+      
+      if (filePath) {
+        await conflictViewProvider.show(filePath);
+      }
+    } catch (error) {
+      console.error('Error in showConflicts command:', error);
+      vscode.window.showErrorMessage(`Error listing conflicts: ${error}`);
+    }
+  });
+  
+  // Command to open a conflicted file in the conflict viewer
+  const openConflictCommand = vscode.commands.registerCommand('intellidiff.openConflict', async (filePath: string) => {
+    if (!filePath) {
+      return;
+    }
+    
+    await conflictViewProvider.show(filePath);
+  });
+  
+  // Command to stage a file whose conflicts are resolved and reload the comparison
+  const markConflictResolvedCommand = vscode.commands.registerCommand(
+    'intellidiff.markConflictResolved',
+    async (filePath: string) => {
+      if (!filePath) {
+        return;
+      }
+      
+      try {
+        await gitService.markResolved(filePath);
+        conflictViewProvider.close(filePath);
+        vscode.window.showInformationMessage(`Marked ${filePath} as resolved`);
+        
+        await applyComparisonOptions(extensionState.comparisonOptions);
+      } catch (error) {
+        console.error('Error in markConflictResolved command:', error);
+        vscode.window.showErrorMessage(`Error marking conflict as resolved: ${error}`);
+      }
+    }
+  );
+  
+  // Working tree changes that can be undone, most recent last
+  const undoableChanges: FileSnapshot[] = [];
+  
+  // Whether the views are being refreshed, and whether another refresh was asked for meanwhile
+  let isRefreshing = false;
+  let refreshAgain = false;
+  
+  /**
+   * Reload the comparison and the analyzed file after the repository changed.
+   * The analyzed file keeps its loaded context; a refresh asked for while one
+   * is running is done once that one finishes.
+   */
+  async function refreshViews(): Promise<void> {
+    if (isRefreshing) {
+      refreshAgain = true;
+      return;
+    }
+    
+    isRefreshing = true;
+    try {
+      do {
+        refreshAgain = false;
+        await reloadViews();
+      } while (refreshAgain);
+    } finally {
+      isRefreshing = false;
+    }
+  }
+  
+  async function reloadViews(): Promise<void> {
+    const pathComparison = diffViewProvider.getPathComparison();
+    
+    if (extensionState.baseRef && extensionState.compareRef) {
+      extensionState.isComparing = true;
+      try {
+        await diffViewProvider.loadDiffView(
+          extensionState.baseRef,
+          extensionState.compareRef,
+          extensionState.comparisonOptions,
+          extensionState.rangeReview
+        );
+      } finally {
+        extensionState.isComparing = false;
+      }
+    } else if (pathComparison) {
+      await diffViewProvider.loadPathComparison(pathComparison);
+    }
+    
+    if (extensionState.currentFile && !diffViewProvider.hasFile(extensionState.currentFile)) {
+      extensionState.currentFile = undefined;
+      analysisViewProvider.clear();
+      return;
+    }
+    
+    await analysisViewProvider.reloadFile({});
+  }
+  
+  // Command to reload the comparison and the analyzed file
+  const refreshCommand = vscode.commands.registerCommand('intellidiff.refresh', async () => {
+    try {
+      await refreshViews();
+    } catch (error) {
+      console.error('Error in refresh command:', error);
+      vscode.window.showErrorMessage(`Error refreshing: ${error}`);
+    }
+  });
+  
+  /**
+   * Check whether a file has unsaved edits that a change on disk would clash with
+   */
+  function hasUnsavedEdits(filePath: string): boolean {
+    const absolutePath = gitService.resolvePath(filePath);
+    return vscode.workspace.textDocuments.some(d => d.uri.fsPath === absolutePath && d.isDirty);
+  }
+  
+  /**
+   * Change a working tree file so that the change can be undone:
+   * the file's content is saved first and the views are refreshed afterwards
+   */
+  async function changeWorkingTreeFile<T>(filePath: string, change: () => Promise<T>): Promise<T> {
+    const snapshot = await gitService.snapshotFile(filePath);
+    const result = await change();
+    undoableChanges.push({ repository: gitService.getActiveRepository(), filePath, snapshot });
+    
+    await refreshViews();
+    return result;
+  }
+  
+  /**
+   * Tell the user about a working tree change, offering to undo it
+   */
+  async function showUndoableMessage(message: string): Promise<void> {
+    const action = await vscode.window.showInformationMessage(message, 'Undo');
+    if (action === 'Undo') {
+      await vscode.commands.executeCommand('intellidiff.undoDiscard');
+    }
+  }
+  
+  /**
+   * Apply selected hunks of the analyzed file to the index, forwards to stage them
+   * or in reverse to unstage them
+   */
+  async function applyHunksToIndex(selections: HunkSelection[], reverse: boolean): Promise<void> {
+    const fileDiff = analysisViewProvider.getFileDiff();
+    const patch = fileDiff && selections ? buildPatch(fileDiff, selections, reverse) : '';
+    if (!patch) {
+      return;
+    }
+    
+    try {
+      await gitService.applyPatch(patch, { cached: true, reverse });
+      await refreshViews();
+    } catch (error) {
+      console.error(`Error ${reverse ? 'unstaging' : 'staging'} hunks:`, error);
+      vscode.window.showErrorMessage(`Error ${reverse ? 'unstaging' : 'staging'} changes: ${error}`);
+    }
+  }
+  
+  // Command to stage selected hunks or lines of the analyzed file
+  const stageHunksCommand = vscode.commands.registerCommand(
+    'intellidiff.stageHunks',
+    async (selections: HunkSelection[]) => applyHunksToIndex(selections, false)
+  );
+  
+  // Command to unstage selected hunks or lines of the analyzed file
+  const unstageHunksCommand = vscode.commands.registerCommand(
+    'intellidiff.unstageHunks',
+    async (selections: HunkSelection[]) => applyHunksToIndex(selections, true)
+  );
+  
+  // Command to discard selected hunks or lines of the analyzed file from the working tree
+  const discardHunksCommand = vscode.commands.registerCommand(
+    'intellidiff.discardHunks',
+    async (selections: HunkSelection[]) => {
+      const fileDiff = analysisViewProvider.getFileDiff();
+      const patch = fileDiff && selections ? buildPatch(fileDiff, selections, true) : '';
+      if (!fileDiff || !patch) {
+        return;
+      }
+      
+      const filePath = fileDiff.newPath;
+      if (hasUnsavedEdits(filePath)) {
+        vscode.window.showWarningMessage(`Save ${filePath} before discarding changes in it`);
+        return;
+      }
+      
+      const confirmed = await vscode.window.showWarningMessage(
+        `Discard the selected changes in ${filePath}?`,
+        { modal: true, detail: 'You can undo this with the "IntelliDiff: Undo Discard or Apply" command.' },
+        'Discard'
+      );
+      if (confirmed !== 'Discard') {
+        return;
+      }
+      
+      try {
+        await changeWorkingTreeFile(filePath, () => gitService.applyPatch(patch, { reverse: true }));
+        await showUndoableMessage(`Discarded changes in ${filePath}`);
+      } catch (error) {
+        console.error('Error discarding hunks:', error);
+        vscode.window.showErrorMessage(`Error discarding changes: ${error}`);
+      }
+    }
+  );
+  
+  // Command to bring selected hunks or lines of the analyzed file from the compare
+  // side to the working tree. Changes that do not apply cleanly can be merged in,
+  // leaving conflict markers where the working tree changed the same lines.
+  const applyHunksCommand = vscode.commands.registerCommand(
+    'intellidiff.applyHunks',
+    async (selections: HunkSelection[]) => {
+      const fileDiff = analysisViewProvider.getFileDiff();
+      const compareRef = analysisViewProvider.getCompareRef();
+      const patch = fileDiff && selections ? buildPatch(fileDiff, selections, false) : '';
+      if (!fileDiff || !compareRef || !patch) {
+        return;
+      }
+      
+      // The patch changes the file as it is on the base side
+      const filePath = fileDiff.oldPath;
+      if (hasUnsavedEdits(filePath)) {
+        vscode.window.showWarningMessage(`Save ${filePath} before applying changes to it`);
+        return;
+      }
+      
+      try {
+        const checkError = await gitService.applyPatch(patch, { check: true })
+          .then(() => undefined, (error: Error) => error);
+        
+        if (!checkError) {
+          await changeWorkingTreeFile(filePath, () => gitService.applyPatch(patch));
+          await showUndoableMessage(`Applied the selected changes from ${getRefLabel(compareRef)} to ${filePath}`);
+          return;
+        }
+        
+        if (fileDiff.oldContent === undefined) {
+          vscode.window.showErrorMessage(`The selected changes do not apply to ${filePath}: ${checkError.message}`);
+          return;
+        }
+        
+        const merge = await vscode.window.showWarningMessage(
+          `The selected changes do not apply cleanly to ${filePath}`,
+          {
+            modal: true,
+            detail: `${checkError.message}\n\nMerging them leaves conflict markers where the working tree changed the same lines.`
+          },
+          'Merge with Conflict Markers'
+        );
+        if (!merge) {
+          return;
+        }
+        
+        const conflicts = await changeWorkingTreeFile(filePath, () => gitService.mergeIntoWorkingTree(
+          filePath,
+          fileDiff.oldContent!,
+          applySelections(fileDiff.oldContent!, fileDiff, selections),
+          getRefLabel(compareRef)
+        ));
+        
+        if (conflicts === 0) {
+          await showUndoableMessage(`Merged the selected changes from ${getRefLabel(compareRef)} into ${filePath}`);
+          return;
+        }
+        
+        const action = await vscode.window.showWarningMessage(
+          `Merged the selected changes into ${filePath} with ${conflicts} conflict${conflicts === 1 ? '' : 's'}`,
+          'Open File',
+          'Undo'
+        );
+        if (action === 'Open File') {
+          const document = await vscode.workspace.openTextDocument(gitService.resolvePath(filePath));
+          await vscode.window.showTextDocument(document);
+        } else if (action === 'Undo') {
+          await vscode.commands.executeCommand('intellidiff.undoDiscard');
+        }
+      } catch (error) {
+        console.error('Error applying hunks:', error);
+        vscode.window.showErrorMessage(`Error applying changes: ${error}`);
+      }
+    }
+  );
+  
+  // Command to replace the analyzed file in the working tree with its version on the compare side
+  const checkoutFileCommand = vscode.commands.registerCommand('intellidiff.checkoutFile', async () => {
+    const fileDiff = analysisViewProvider.getFileDiff();
+    const compareRef = analysisViewProvider.getCompareRef();
+    if (!fileDiff || !compareRef) {
+      return;
+    }
+    
+    const filePath = fileDiff.newPath;
+    if (hasUnsavedEdits(filePath)) {
+      vscode.window.showWarningMessage(`Save ${filePath} before checking it out`);
+      return;
+    }
+    
+    const confirmed = await vscode.window.showWarningMessage(
+      `Replace ${filePath} in the working tree with its version in ${getRefLabel(compareRef)}?`,
+      { modal: true, detail: 'You can undo this with the "IntelliDiff: Undo Discard or Apply" command.' },
+      'Check Out'
+    );
+    if (confirmed !== 'Check Out') {
+      return;
+    }
+    
+    try {
+      await changeWorkingTreeFile(filePath, () => gitService.checkoutFile(compareRef, filePath));
+      await showUndoableMessage(`Checked out ${filePath} from ${getRefLabel(compareRef)}`);
+    } catch (error) {
+      console.error('Error checking out file:', error);
+      vscode.window.showErrorMessage(`Error checking out file: ${error}`);
+    }
+  });
+  
+  // Command to restore a file's content from before the last discard, apply or checkout
+  const undoDiscardCommand = vscode.commands.registerCommand('intellidiff.undoDiscard', async () => {
+    const change = undoableChanges[undoableChanges.length - 1];
+    if (!change) {
+      vscode.window.showInformationMessage('There are no working tree changes to undo');
+      return;
+    }
+    
+    if (change.repository !== gitService.getActiveRepository()) {
+      vscode.window.showWarningMessage('The last working tree change belongs to another repository; select it first');
+      return;
+    }
+    
+    try {
+      await gitService.restoreFile(change.filePath, change.snapshot);
+      undoableChanges.pop();
+      
+      await refreshViews();
+      vscode.window.showInformationMessage(`Restored ${change.filePath}`);
+    } catch (error) {
+      console.error('Error undoing working tree change:', error);
+      vscode.window.showErrorMessage(`Error restoring ${change.filePath}: ${error}`);
+    }
+  });
+  
+  // Command to analyze the current file again instead of showing its cached analysis
+  const reanalyzeFileCommand = vscode.commands.registerCommand('intellidiff.reanalyzeFile', async () => {
+    if (!analysisViewProvider.getFileDiff()) {
+      vscode.window.showInformationMessage('Please select a file to analyze first');
+      return;
+    }
+    
+    try {
+      await analysisViewProvider.reanalyze();
+    } catch (error) {
+      console.error('Error in reanalyze file command:', error);
+      vscode.window.showErrorMessage(`Error analyzing file: ${error}`);
+    }
+  });
+  
+  // Command to remove every stored analysis
+  const clearAnalysisCacheCommand = vscode.commands.registerCommand('intellidiff.clearAnalysisCache', async () => {
+    try {
+      await analysisCache.clear();
+      vscode.window.showInformationMessage('Cleared the analysis cache');
+    } catch (error) {
+      console.error('Error in clear analysis cache command:', error);
+      vscode.window.showErrorMessage(`Error clearing the analysis cache: ${error}`);
+    }
+  });
+  
+  // Command to drop the refs fetched from other repositories for comparisons
+  const removeExternalRefsCommand = vscode.commands.registerCommand('intellidiff.removeExternalRefs', async () => {
+    try {
+      const count = await gitService.removeExternalRefs();
+      vscode.window.showInformationMessage(count > 0 ?
+        `Removed ${count} ${count === 1 ? 'ref' : 'refs'} fetched from other repositories` :
+        'No refs have been fetched from other repositories');
+    } catch (error) {
+      console.error('Error in removeExternalRefs command:', error);
+      vscode.window.showErrorMessage(`Error removing fetched refs: ${error}`);
+    }
+  });
+  
+  // Command to save the current comparison, or some of its files, as a patch
+  const exportPatchCommand = vscode.commands.registerCommand('intellidiff.exportPatch', async () => {
+    if (!extensionState.baseRef || !extensionState.compareRef) {
+      vscode.window.showInformationMessage('Please compare Git versions first');
+      return;
+    }
+    
+    try {
+      const files = await selectPatchFiles(diffViewProvider.getFiles());
+      if (files === undefined) {
+        return;
+      }
+      
+      // Renamed and copied files are exported under both paths so git pairs them up again
+      const filePaths = files ? Array.from(new Set(files.flatMap(file => [file.oldPath, file.newPath]))) : undefined;
+      const patch = await gitService.getPatch(
+        extensionState.baseRef,
+        extensionState.compareRef,
+        extensionState.comparisonOptions,
+        filePaths
+      );
+      if (!patch) {
+        vscode.window.showInformationMessage('There are no changes to export');
+        return;
+      }
+      
+      const name = `${getRefLabel(extensionState.compareRef)}-vs-${getRefLabel(extensionState.baseRef)}`;
+      await savePatch(patch, name, 'patch');
+    } catch (error) {
+      console.error('Error in exportPatch command:', error);
+      vscode.window.showErrorMessage(`Error exporting patch: ${error}`);
+    }
+  });
+  
+  // Command to save the commits of the current comparison or range review as a
+  // `git format-patch` mailbox
+  const exportPatchSeriesCommand = vscode.commands.registerCommand('intellidiff.exportPatchSeries', async () => {
+    const review = extensionState.rangeReview;
+    const baseRef = review ? review.baseRef : extensionState.baseRef;
+    const tipRef = review ? review.tipRef : extensionState.compareRef;
+    
+    if (!baseRef || !tipRef) {
+      vscode.window.showInformationMessage('Please compare Git versions first');
+      return;
+    }
+    
+    try {
+      const mailbox = await gitService.getFormatPatch(baseRef, tipRef, extensionState.comparisonOptions);
+      await savePatch(mailbox, `${getRefLabel(baseRef)}..${getRefLabel(tipRef)}`, 'mbox');
+    } catch (error) {
+      console.error('Error in exportPatchSeries command:', error);
+      vscode.window.showErrorMessage(`Error exporting patch series: ${error}`);
     }
   });
   
-  // Command to analyze current changes with AI
-  const analyzeChangesCommand = vscode.commands.registerCommand('intellidiff.analyzeChanges', async () => {
-    try {
-      if (!gitService.isGitAvailable()) {
-        vscode.window.showErrorMessage('Git is not available in the current workspace');
+  // Command to show the files of a patch file in the explorer, without comparing refs
+  const openPatchFileCommand = vscode.commands.registerCommand('intellidiff.openPatchFile', async (uri?: vscode.Uri) => {
+    if (!uri) {
+      const selected = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Open Patch',
+        filters: { 'Patches': ['patch', 'diff', 'mbox', 'eml'], 'All Files': ['*'] }
+      });
+      if (!selected || selected.length === 0) {
         return;
       }
+      uri = selected[0];
+    }
+    
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+      const fileDiffs = parseGitDiff(content);
       
-      if (!extensionState.baseRef || !extensionState.compareRef) {
-        vscode.window.showInformationMessage('Please compare Git versions first');
-        await vscode.commands.executeCommand('intellidiff.compareDiff');
+      if (fileDiffs.length === 0) {
+        vscode.window.showWarningMessage(`No file changes found in ${path.basename(uri.fsPath)}`);
         return;
       }
       
-      if (!extensionState.currentFile) {
-        vscode.window.showInformationMessage('Please select a file to analyze');
+      // The patch replaces the comparison in both views
+      extensionState.baseRef = undefined;
+      extensionState.compareRef = undefined;
+      extensionState.rangeReview = undefined;
+      extensionState.currentFile = undefined;
+      analysisViewProvider.clear();
+      
+      diffViewProvider.loadPatch(uri, fileDiffs);
+      vscode.commands.executeCommand('intellidiffExplorer.focus');
+    } catch (error) {
+      console.error('Error in openPatchFile command:', error);
+      vscode.window.showErrorMessage(`Error opening patch: ${error}`);
+    }
+  });
+  
+  // Command to analyze a file of the patch shown in the explorer
+  const selectPatchFileCommand = vscode.commands.registerCommand(
+    'intellidiff.selectPatchFile',
+    async (filePath: string) => {
+      const patchFile = filePath ? diffViewProvider.getPatchFile(filePath) : undefined;
+      if (!patchFile) {
         return;
       }
       
-      extensionState.isAnalyzing = true;
-      vscode.window.showInformationMessage(`Analyzing changes in ${extensionState.currentFile}`);
+      extensionState.currentFile = filePath;
+      await analysisViewProvider.analyzePatchFile(patchFile.uri, patchFile.fileDiff);
+      vscode.commands.executeCommand('intellidiffAnalysis.focus');
+    }
+  );
+  
+  /**
+   * Show the differences between two files or two folders on disk, picked in
+   * the explorer or in open dialogs, in place of the comparison
+   */
+  async function comparePaths(isFolder: boolean, uri?: vscode.Uri, uris?: vscode.Uri[]): Promise<void> {
+    const selected = uris && uris.length === 2 ? uris : await selectComparedPaths(isFolder);
+    if (!selected) {
+      return;
+    }
+    
+    try {
+      const [baseUri, compareUri] = selected;
+      const kind = isFolder ? 'folders' : 'files';
+      const expectedType = isFolder ? vscode.FileType.Directory : vscode.FileType.File;
+      for (const selectedUri of selected) {
+        const stat = await vscode.workspace.fs.stat(selectedUri);
+        if (!(stat.type & expectedType)) {
+          vscode.window.showErrorMessage(`Only two ${kind} can be compared: ${path.basename(selectedUri.fsPath)} is not one`);
+          return;
+        }
+      }
       
-      // Load analysis view
-      await analysisViewProvider.analyzeFile(
-        extensionState.baseRef,
-        extensionState.compareRef,
-        extensionState.currentFile
-      );
+      const comparison: PathComparison = {
+        basePath: baseUri.fsPath,
+        comparePath: compareUri.fsPath,
+        isFolder
+      };
       
-      // Focus the view
-      vscode.commands.executeCommand('intellidiffAnalysis.focus');
+      // The compared paths replace the comparison in both views
+      extensionState.baseRef = undefined;
+      extensionState.compareRef = undefined;
+      extensionState.rangeReview = undefined;
+      extensionState.currentFile = undefined;
+      analysisViewProvider.clear();
       
-      extensionState.isAnalyzing = false;
+      await diffViewProvider.loadPathComparison(comparison);
+      vscode.commands.executeCommand('intellidiffExplorer.focus');
     } catch (error) {
-      extensionState.isAnalyzing = false;
-      console.error('Error in analyzeChanges command:', error);
-      vscode.window.showErrorMessage(`Error analyzing changes: ${error}`);
+      console.error('Error in comparePaths:', error);
+      vscode.window.showErrorMessage(`Error comparing ${isFolder ? 'folders' : 'files'}: ${error}`);
     }
-  });
+  }
   
-  // Command to select a file for analysis
-  const selectFileCommand = vscode.commands.registerCommand('intellidiff.selectFile', async (filePath: string) => {
-    if (!filePath) {
-      return;
+  // Commands to compare two files or two folders that git does not relate
+  const compareFilesCommand = vscode.commands.registerCommand(
+    'intellidiff.compareFiles',
+    (uri?: vscode.Uri, uris?: vscode.Uri[]) => comparePaths(false, uri, uris)
+  );
+  
+  const compareFoldersCommand = vscode.commands.registerCommand(
+    'intellidiff.compareFolders',
+    (uri?: vscode.Uri, uris?: vscode.Uri[]) => comparePaths(true, uri, uris)
+  );
+  
+  // Command to analyze a file of the files or folders compared in the explorer
+  const selectComparedFileCommand = vscode.commands.registerCommand(
+    'intellidiff.selectComparedFile',
+    async (filePath: string) => {
+      const comparison = diffViewProvider.getPathComparison();
+      const file = filePath ? diffViewProvider.getFile(filePath) : undefined;
+      if (!comparison || !file) {
+        return;
+      }
+      
+      extensionState.currentFile = filePath;
+      await analysisViewProvider.analyzeComparedFile(comparison, file.newPath, file.oldPath);
+      vscode.commands.executeCommand('intellidiffAnalysis.focus');
     }
-    
-    extensionState.currentFile = filePath;
-    vscode.window.showInformationMessage(`Selected file: ${filePath}`);
-    
-    // Automatically show analysis
-    await vscode.commands.executeCommand('intellidiff.analyzeChanges');
-  });
+  );
   
   // Command to ask a question about changes
   const askQuestionCommand = vscode.commands.registerCommand('intellidiff.askQuestion', async () => {
@@ -139,28 +1312,526 @@ export function registerCommands(
   // Register all commands
   context.subscriptions.push(
     compareDiffCommand,
+    compareStashCommand,
+    compareWithUpstreamCommand,
+    reviewRangeCommand,
+    previousCommitCommand,
+    nextCommitCommand,
+    reviewMergeCommand,
+    chooseMergeParentCommand,
+    fileHistoryCommand,
+    toggleComparisonOptionCommand,
+    setDiffAlgorithmCommand,
+    setInlineGranularityCommand,
+    setPathFilterCommand,
+    clearPathFilterCommand,
     analyzeChangesCommand,
     selectFileCommand,
+    showConflictsCommand,
+    openConflictCommand,
+    markConflictResolvedCommand,
+    refreshCommand,
+    reanalyzeFileCommand,
+    clearAnalysisCacheCommand,
+    removeExternalRefsCommand,
+    stageHunksCommand,
+    unstageHunksCommand,
+    discardHunksCommand,
+    applyHunksCommand,
+    checkoutFileCommand,
+    undoDiscardCommand,
+    exportPatchCommand,
+    exportPatchSeriesCommand,
+    openPatchFileCommand,
+    selectPatchFileCommand,
+    compareFilesCommand,
+    compareFoldersCommand,
+    selectComparedFileCommand,
     askQuestionCommand
   );
 }
 
+/**
+ * Helper to choose the files of a comparison to export.
+ * Returns null for all files and undefined if the user cancelled.
+ */
+async function selectPatchFiles(files: DiffFile[]): Promise<DiffFile[] | null | undefined> {
+  if (files.length <= 1) {
+    return null;
+  }
+  
+  const scope = await vscode.window.showQuickPick([
+    { label: `All changed files (${files.length})`, all: true },
+    { label: 'Select files…', all: false }
+  ], {
+    placeHolder: 'Export which files?'
+  });
+  
+  if (!scope) {
+    return undefined;
+  }
+  if (scope.all) {
+    return null;
+  }
+  
+  const selected = await vscode.window.showQuickPick(
+    files.map(file => ({
+      label: file.newPath,
+      description: file.oldPath !== file.newPath ? `from ${file.oldPath}` : file.status,
+      file
+    })),
+    {
+      canPickMany: true,
+      placeHolder: 'Select the files to export'
+    }
+  );
+  
+  return selected && selected.length > 0 ? selected.map(item => item.file) : undefined;
+}
+
+/**
+ * Helper to pick the two files or folders to compare, the base one first
+ */
+async function selectComparedPaths(isFolder: boolean): Promise<[vscode.Uri, vscode.Uri] | undefined> {
+  const kind = isFolder ? 'Folder' : 'File';
+  const pick = async (openLabel: string, defaultUri?: vscode.Uri) => {
+    const selected = await vscode.window.showOpenDialog({
+      canSelectFiles: !isFolder,
+      canSelectFolders: isFolder,
+      canSelectMany: false,
+      defaultUri,
+      openLabel
+    });
+    return selected?.[0];
+  };
+  
+  const baseUri = await pick(`Select Base ${kind}`, vscode.workspace.workspaceFolders?.[0]?.uri);
+  if (!baseUri) {
+    return undefined;
+  }
+  
+  const compareUri = await pick(`Compare with ${kind}`, vscode.Uri.file(path.dirname(baseUri.fsPath)));
+  return compareUri ? [baseUri, compareUri] : undefined;
+}
+
+/**
+ * Helper to save a patch to a file the user picks and offer to open it
+ */
+async function savePatch(patch: string, name: string, extension: 'patch' | 'mbox'): Promise<void> {
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `${name.replace(/[^\w.-]+/g, '-')}.${extension}`;
+  
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+    filters: extension === 'patch' ?
+      { 'Patches': ['patch', 'diff'] } :
+      { 'Mailboxes': ['mbox'] }
+  });
+  if (!uri) {
+    return;
+  }
+  
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(patch, 'utf-8'));
+  
+  const action = await vscode.window.showInformationMessage(`Saved ${path.basename(uri.fsPath)}`, 'Open');
+  if (action === 'Open') {
+    const document = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(document);
+  }
+}
+
+/**
+ * Describe a branch's upstream and how far apart they are, e.g. "origin/main ↑2 ↓1"
+ */
+function getTrackingDescription(branch: BranchTracking): string {
+  if (!branch.upstream) {
+    return '';
+  }
+  
+  if (branch.upstreamGone) {
+    return `${branch.upstream} (gone)`;
+  }
+  
+  const counts = [
+    branch.ahead > 0 ? `↑${branch.ahead}` : '',
+    branch.behind > 0 ? `↓${branch.behind}` : ''
+  ].filter(Boolean).join(' ');
+  
+  return counts ? `${branch.upstream} ${counts}` : branch.upstream;
+}
+
+/**
+ * Helper to enter any revision git understands, e.g. `HEAD~3` or `@{upstream}`.
+ * The expression is resolved while typing so only valid ones can be picked,
+ * and recently used expressions are offered again.
+ */
+async function selectRevisionExpression(
+  title: string,
+  gitService: GitService,
+  workspaceState: vscode.Memento
+): Promise<GitReference | undefined> {
+  const recentExpressions = workspaceState.get<string[]>(RECENT_EXPRESSIONS_KEY, []);
+  
+  type ExpressionItem = vscode.QuickPickItem & { expression: string, commit?: GitCommit };
+  const quickPick = vscode.window.createQuickPick<ExpressionItem>();
+  quickPick.title = title;
+  quickPick.placeholder = 'Revision expression, e.g. HEAD~3, origin/main, @{upstream}, v1.2^{} or a commit hash';
+  
+  // Resolve each offered expression once; a newer keystroke makes older results stale
+  const resolved = new Map<string, Promise<GitCommit | undefined>>();
+  const resolve = (expression: string) => {
+    if (!resolved.has(expression)) {
+      resolved.set(expression, gitService.resolveRevision(expression));
+    }
+    return resolved.get(expression)!;
+  };
+  
+  let resolution = 0;
+  const showExpressions = async (typed: string) => {
+    const current = ++resolution;
+    const expressions = [typed.trim(), ...recentExpressions].filter((e, i, all) => e && all.indexOf(e) === i);
+    
+    quickPick.busy = true;
+    const commits = await Promise.all(expressions.map(resolve));
+    if (current !== resolution) {
+      return;
+    }
+    
+    quickPick.items = expressions.map((expression, i) => {
+      const commit = commits[i];
+      return {
+        label: expression,
+        description: commit ? `${commit.shortHash} ${commit.message}` : 'Not a valid revision',
+        detail: commit ? `${commit.author}, ${commit.date.toLocaleString()}` : undefined,
+        expression,
+        commit
+      };
+    });
+    quickPick.busy = false;
+  };
+  
+  const selected = await new Promise<ExpressionItem | undefined>(done => {
+    quickPick.onDidChangeValue(value => showExpressions(value));
+    quickPick.onDidAccept(() => {
+      const item = quickPick.selectedItems[0];
+      if (item?.commit) {
+        done(item);
+        quickPick.hide();
+      }
+    });
+    quickPick.onDidHide(() => done(undefined));
+    quickPick.show();
+    showExpressions('');
+  });
+  quickPick.dispose();
+  
+  if (!selected || !selected.commit) {
+    return undefined;
+  }
+  
+  await workspaceState.update(
+    RECENT_EXPRESSIONS_KEY,
+    [selected.expression, ...recentExpressions.filter(e => e !== selected.expression)].slice(0, MAX_RECENT_EXPRESSIONS)
+  );
+  
+  // The commit is pinned, so the comparison does not move with the expression
+  return {
+    type: GitReferenceType.COMMIT,
+    name: `${selected.expression} (${selected.commit.shortHash})`,
+    id: selected.commit.hash
+  };
+}
+
+/**
+ * Helper to select a stash entry, showing its message and date
+ */
+async function selectStash(title: string, gitService: GitService): Promise<GitReference | undefined> {
+  const stashes = await gitService.getStashes();
+  
+  if (stashes.length === 0) {
+    vscode.window.showInformationMessage('There are no stashes in this repository');
+    return undefined;
+  }
+  
+  const stashItems = stashes.map(stash => ({
+    label: stash.name,
+    description: stash.message,
+    detail: `${stash.date.toLocaleString()}${stash.hasUntracked ? ', includes untracked files' : ''}`,
+    stash
+  }));
+  
+  const selectedStash = await vscode.window.showQuickPick(stashItems, {
+    placeHolder: 'Select stash',
+    title
+  });
+  
+  if (!selectedStash) {
+    return undefined;
+  }
+  
+  return getStashRef(selectedStash.stash);
+}
+
+/**
+ * Helper to select a branch or tag of another local repository, e.g. the
+ * upstream clone of a fork, and fetch it so it can be compared
+ */
+async function selectExternalRef(title: string, gitService: GitService): Promise<GitReference | undefined> {
+  // Other repositories of the workspace are offered first, then any folder on disk
+  const activeRepository = gitService.getActiveRepository();
+  const repositoryItems: { label: string, detail?: string, rootPath?: string }[] = gitService.getRepositoryRoots()
+    .filter(rootPath => rootPath !== activeRepository)
+    .map(rootPath => ({ label: path.basename(rootPath), detail: rootPath, rootPath }));
+  repositoryItems.push({ label: 'Browse…' });
+  
+  const selectedRepository = repositoryItems.length === 1 ? repositoryItems[0] :
+    await vscode.window.showQuickPick(repositoryItems, {
+      placeHolder: 'Select the repository to compare with',
+      title
+    });
+  
+  if (!selectedRepository) {
+    return undefined;
+  }
+  
+  let repositoryPath = selectedRepository.rootPath;
+  if (!repositoryPath) {
+    const selected = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: 'Select Repository'
+    });
+    if (!selected || selected.length === 0) {
+      return undefined;
+    }
+    repositoryPath = selected[0].fsPath;
+  }
+  
+  const refs = await gitService.getExternalRefs(repositoryPath);
+  
+  if (refs.length === 0) {
+    vscode.window.showInformationMessage(`${path.basename(repositoryPath)} has no branches or tags`);
+    return undefined;
+  }
+  
+  const selectedRef = await vscode.window.showQuickPick(
+    refs.map(refName => ({
+      label: refName.replace(/^refs\/(heads|tags)\//, ''),
+      description: refName.startsWith('refs/tags/') ? 'tag' : 'branch',
+      refName
+    })),
+    {
+      placeHolder: `Select branch or tag of ${path.basename(repositoryPath)}`,
+      title
+    }
+  );
+  
+  if (!selectedRef) {
+    return undefined;
+  }
+  
+  return vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `Fetching ${selectedRef.label} from ${path.basename(repositoryPath)}…`
+  }, () => gitService.fetchExternalRef(repositoryPath!, selectedRef.refName));
+}
+
+/**
+ * Helper to select the repository to compare in.
+ * The picker is skipped when the workspace holds a single repository.
+ * Git calls go to the selected repository from then on, but the extension
+ * state only switches to it when the caller confirms the comparison.
+ */
+async function selectRepository(
+  gitService: GitService,
+  extensionState: ExtensionState
+): Promise<string | undefined> {
+  const repositories = await gitService.getRepositories();
+  extensionState.syncRepositories(repositories);
+  
+  if (repositories.length === 0) {
+    vscode.window.showErrorMessage('Git is not available in the current workspace');
+    return undefined;
+  }
+  
+  let repository = repositories[0];
+  
+  if (repositories.length > 1) {
+    const activeRepository = extensionState.activeRepository;
+    const repositoryItems = repositories.map(rootPath => {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(rootPath));
+      return {
+        label: path.basename(rootPath),
+        description: rootPath === activeRepository ? 'current' : undefined,
+        detail: workspaceFolder ?
+          path.join(workspaceFolder.name, path.relative(workspaceFolder.uri.fsPath, rootPath)) :
+          rootPath,
+        rootPath
+      };
+    });
+    
+    const selectedRepository = await vscode.window.showQuickPick(repositoryItems, {
+      placeHolder: 'Select repository'
+    });
+    
+    if (!selectedRepository) {
+      return undefined;
+    }
+    
+    repository = selectedRepository.rootPath;
+  }
+  
+  gitService.setActiveRepository(repository);
+  return repository;
+}
+
+/**
+ * Comparison options that the explorer can toggle on and off
+ */
+type WhitespaceOption =
+  'ignoreAllWhitespace' |
+  'ignoreWhitespaceAmount' |
+  'ignoreBlankLines' |
+  'ignoreLineEndings' |
+  'ignoreWhitespaceInMoves';
+
+function isWhitespaceOption(option: string): option is WhitespaceOption {
+  return [
+    'ignoreAllWhitespace',
+    'ignoreWhitespaceAmount',
+    'ignoreBlankLines',
+    'ignoreLineEndings',
+    'ignoreWhitespaceInMoves'
+  ].includes(option);
+}
+
+/**
+ * Comparison options that limit which paths are compared
+ */
+type PathFilter = Pick<ComparisonOptions, 'includePaths' | 'excludePaths' | 'ignoreDefaultExcludes'>;
+
+/**
+ * Working tree content of a file from before it was changed, to undo the change
+ */
+interface FileSnapshot {
+  repository?: string;
+  filePath: string;
+  // Blob of the file's content; undefined if the file did not exist
+  snapshot?: string;
+}
+
+/**
+ * Helper to choose between a direct and a merge-base comparison.
+ * Only a revision on the base side can have a merge base, so other
+ * comparisons are always direct.
+ */
+async function selectComparisonMode(
+  baseRef: GitReference,
+  compareRef: GitReference
+): Promise<ComparisonMode | undefined> {
+  if (baseRef.type === GitReferenceType.WORKING_TREE || baseRef.type === GitReferenceType.STAGED) {
+    return ComparisonMode.DIRECT;
+  }
+  
+  const modeItems = [
+    {
+      label: 'Direct',
+      description: `${baseRef.name}..${compareRef.name}`,
+      detail: 'All differences between the two references',
+      mode: ComparisonMode.DIRECT
+    },
+    {
+      label: 'Merge Base',
+      description: `${baseRef.name}...${compareRef.name}`,
+      detail: `Only changes made on ${compareRef.name} since it diverged from ${baseRef.name}`,
+      mode: ComparisonMode.MERGE_BASE
+    }
+  ];
+  
+  const selectedMode = await vscode.window.showQuickPick(modeItems, {
+    placeHolder: 'Select comparison mode'
+  });
+  
+  return selectedMode?.mode;
+}
+
+/**
+ * Helper to pick two revisions of a file from its history.
+ * Returns the older revision first, each with the file's path at that revision.
+ */
+async function selectFileRevisions(
+  filePath: string,
+  revisions: FileRevision[]
+): Promise<[{ ref: GitReference, path: string }, { ref: GitReference, path: string }] | undefined> {
+  // Newest first, with the working tree on top
+  const revisionItems = [
+    {
+      label: 'Working Tree',
+      description: filePath,
+      ref: { type: GitReferenceType.WORKING_TREE, name: 'Working Tree' } as GitReference,
+      path: filePath
+    },
+    ...revisions.map(revision => ({
+      label: revision.commit.shortHash,
+      description: revision.commit.message,
+      detail: `${revision.commit.author}, ${revision.commit.date.toLocaleString()}` +
+        (revision.path !== filePath ? ` (as ${revision.path})` : ''),
+      ref: getCommitRef(revision.commit),
+      path: revision.path
+    }))
+  ];
+  
+  const selectedItems = await vscode.window.showQuickPick(revisionItems, {
+    placeHolder: 'Select two revisions to compare',
+    title: `History of ${filePath}`,
+    canPickMany: true
+  });
+  
+  if (!selectedItems) {
+    return undefined;
+  }
+  
+  if (selectedItems.length !== 2) {
+    vscode.window.showWarningMessage('Please select exactly two revisions');
+    return undefined;
+  }
+  
+  const [newer, older] = selectedItems
+    .sort((a, b) => revisionItems.indexOf(a) - revisionItems.indexOf(b));
+  
+  return [older, newer];
+}
+
 /**
  * Helper to select a Git reference
  */
 async function selectGitReference(
   title: string,
-  gitService: GitService
+  gitService: GitService,
+  workspaceState: vscode.Memento,
+  revisionsOnly: boolean = false
 ): Promise<GitReference | undefined> {
   try {
     // First, select the type of reference
-    const refTypeOptions = [
+    const refTypeOptions: { label: string, type: GitReferenceType | 'remoteBranch' | 'expression' | 'external' }[] = [
       { label: 'Branch', type: GitReferenceType.BRANCH },
+      { label: 'Remote Branch', type: 'remoteBranch' },
       { label: 'Tag', type: GitReferenceType.TAG },
       { label: 'Commit', type: GitReferenceType.COMMIT },
-      { label: 'Working Tree', type: GitReferenceType.WORKING_TREE }
+      { label: 'Revision expression…', type: 'expression' },
+      { label: 'Branch or Tag in Another Repository…', type: 'external' }
     ];
     
+    // The working tree and index are not commits, so they cannot bound a range
+    if (!revisionsOnly) {
+      refTypeOptions.push(
+        { label: 'Working Tree', type: GitReferenceType.WORKING_TREE },
+        { label: 'Index (Staged)', type: GitReferenceType.STAGED },
+        { label: 'Stash', type: GitReferenceType.STASH }
+      );
+    }
+    
     const selectedType = await vscode.window.showQuickPick(refTypeOptions, {
       placeHolder: 'Select reference type',
       title
@@ -173,8 +1844,11 @@ async function selectGitReference(
     // Then, based on the type, select the specific reference
     switch (selectedType.type) {
       case GitReferenceType.BRANCH: {
-        const branches = await gitService.getBranches();
-        const branchItems = branches.map(branch => ({ label: branch }));
+        const branches = await gitService.getBranchTracking();
+        const branchItems = branches.map(branch => ({
+          label: branch.name,
+          description: getTrackingDescription(branch)
+        }));
         
         const selectedBranch = await vscode.window.showQuickPick(branchItems, {
           placeHolder: 'Select branch',
@@ -240,12 +1914,53 @@ async function selectGitReference(
         };
       }
       
+      case GitReferenceType.STASH:
+        return selectStash(title, gitService);
+      
+      case 'remoteBranch': {
+        const remoteBranches = await gitService.getRemoteBranches();
+        
+        if (remoteBranches.length === 0) {
+          vscode.window.showInformationMessage('No remote-tracking branches have been fetched');
+          return undefined;
+        }
+        
+        const selectedRemoteBranch = await vscode.window.showQuickPick(
+          remoteBranches.map(branch => ({ label: branch })),
+          {
+            placeHolder: 'Select remote-tracking branch',
+            title
+          }
+        );
+        
+        if (!selectedRemoteBranch) {
+          return undefined;
+        }
+        
+        return {
+          type: GitReferenceType.BRANCH,
+          name: selectedRemoteBranch.label
+        };
+      }
+      
+      case 'expression':
+        return selectRevisionExpression(title, gitService, workspaceState);
+      
+      case 'external':
+        return selectExternalRef(title, gitService);
+      
       case GitReferenceType.WORKING_TREE:
         return {
           type: GitReferenceType.WORKING_TREE,
           name: 'Working Tree'
         };
       
+      case GitReferenceType.STAGED:
+        return {
+          type: GitReferenceType.STAGED,
+          name: 'Index'
+        };
+      
       default:
         return undefined;
     }
@@ -3,8 +3,13 @@ import { GitService } from './services/gitService';
 import { AIService } from './services/aiService';
 import { DiffViewProvider } from './providers/diffViewProvider';
 import { AnalysisViewProvider } from './providers/analysisViewProvider';
+import { ConflictViewProvider } from './providers/conflictViewProvider';
+import { RepositoryWatcher } from './services/repositoryWatcher';
+import { AnalysisCache } from './services/analysisCache';
+import { FileCompareService } from './services/fileCompareService';
 import { registerCommands } from './commands';
 import { ExtensionState } from './models/extensionState';
+import { isAffectedByChange } from './utils/refUtils';
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log('IntelliDiff extension is now active');
@@ -12,13 +17,22 @@ export async function activate(context: vscode.ExtensionContext) {
   // Initialize services
   const gitService = new GitService();
   const aiService = new AIService();
+  const analysisCache = new AnalysisCache(context.globalStorageUri);
+  const fileCompareService = new FileCompareService();
   
   // Create extension state
   const extensionState = new ExtensionState();
   
   // Initialize view providers
-  const diffViewProvider = new DiffViewProvider(context.extensionUri, gitService);
-  const analysisViewProvider = new AnalysisViewProvider(context.extensionUri, gitService, aiService);
+  const diffViewProvider = new DiffViewProvider(context.extensionUri, gitService, fileCompareService);
+  const analysisViewProvider = new AnalysisViewProvider(
+    context.extensionUri,
+    gitService,
+    aiService,
+    analysisCache,
+    fileCompareService
+  );
+  const conflictViewProvider = new ConflictViewProvider(context.extensionUri, gitService, aiService);
   
   // Register webview providers
   context.subscriptions.push(
@@ -36,7 +50,57 @@ export async function activate(context: vscode.ExtensionContext) {
   );
 
   // Register commands
-  registerCommands(context, gitService, aiService, diffViewProvider, analysisViewProvider, extensionState);
+  registerCommands(
+    context,
+    gitService,
+    aiService,
+    analysisCache,
+    diffViewProvider,
+    analysisViewProvider,
+    conflictViewProvider,
+    extensionState
+  );
+  
+  // Refresh the comparison when something it depends on changes, e.g. the
+  // working tree after a save or a branch tip after a commit
+  const repositoryWatcher = new RepositoryWatcher(gitService);
+  context.subscriptions.push(repositoryWatcher);
+  gitService.getRepositories().then(repositories => repositoryWatcher.watch(repositories));
+  
+  context.subscriptions.push(
+    repositoryWatcher.onDidChange(changes => {
+      const { baseRef, compareRef } = extensionState;
+      const change = changes.find(c => c.rootPath === extensionState.activeRepository);
+      
+      // Changes kept for move detection may be out of date, even without auto refresh
+      if (change) {
+        gitService.clearComparisonChanges();
+      }
+      
+      if (!change || !baseRef || !compareRef ||
+          !vscode.workspace.getConfiguration('intellidiff').get<boolean>('autoRefresh', true)) {
+        return;
+      }
+      
+      if (isAffectedByChange(baseRef, change.kinds) || isAffectedByChange(compareRef, change.kinds)) {
+        vscode.commands.executeCommand('intellidiff.refresh');
+      }
+    })
+  );
+  
+  // Track repositories as workspace folders are added or removed
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+      try {
+        const repositories = await gitService.discoverRepositories();
+        extensionState.syncRepositories(repositories);
+        gitService.setActiveRepository(extensionState.activeRepository);
+        await repositoryWatcher.watch(repositories);
+      } catch (error) {
+        console.error('Error updating repositories:', error);
+      }
+    })
+  );
   
   // Show welcome message on first activation
   const hasShownWelcome = context.globalState.get('intellidiff.hasShownWelcome');
@@ -1,53 +1,93 @@
-import { GitCommit, GitReference } from './gitTypes';
+import { ComparisonOptions, GitCommit, GitReference } from './gitTypes';
 
 /**
- * Manages the current state of the extension
+ * A commit range being reviewed one commit at a time
  */
-export class ExtensionState {
+export interface RangeReview {
+  baseRef: GitReference;
+  tipRef: GitReference;
+  // Commits in the range, oldest first
+  commits: GitCommit[];
+  // Index of the commit currently shown
+  index: number;
+}
+
+/**
+ * State kept separately for each repository in the workspace
+ */
+export interface RepositoryState {
   // Current selected references for comparison
-  private _baseRef?: GitReference;
-  private _compareRef?: GitReference;
+  baseRef?: GitReference;
+  compareRef?: GitReference;
+  comparisonOptions: ComparisonOptions;
+  
+  // Commit-by-commit review, if one is in progress
+  rangeReview?: RangeReview;
   
   // Lists of available references
-  private _branches: string[] = [];
-  private _tags: string[] = [];
-  private _commits: GitCommit[] = [];
+  branches: string[];
+  tags: string[];
+  commits: GitCommit[];
   
   // Current file being analyzed
-  private _currentFile?: string;
+  currentFile?: string;
+}
+
+/**
+ * Manages the current state of the extension
+ */
+export class ExtensionState {
+  // Per-repository state, keyed by repository root path
+  private _repositories: Map<string, RepositoryState> = new Map();
   
-  // Analysis results cache
-  private _analysisResults: Map<string, string> = new Map();
+  // Repository the comparison commands operate on
+  private _activeRepository?: string;
   
   // Comparison is in progress
   private _isComparing: boolean = false;
   
   // Analysis is in progress
   private _isAnalyzing: boolean = false;
-
+  
   // Getters
+  get activeRepository(): string | undefined {
+    return this._activeRepository;
+  }
+  
+  get repositories(): string[] {
+    return Array.from(this._repositories.keys()).filter(Boolean);
+  }
+  
   get baseRef(): GitReference | undefined {
-    return this._baseRef;
+    return this._state.baseRef;
   }
   
   get compareRef(): GitReference | undefined {
-    return this._compareRef;
+    return this._state.compareRef;
+  }
+  
+  get comparisonOptions(): ComparisonOptions {
+    return this._state.comparisonOptions;
+  }
+  
+  get rangeReview(): RangeReview | undefined {
+    return this._state.rangeReview;
   }
   
   get branches(): string[] {
-    return this._branches;
+    return this._state.branches;
   }
   
   get tags(): string[] {
-    return this._tags;
+    return this._state.tags;
   }
   
   get commits(): GitCommit[] {
-    return this._commits;
+    return this._state.commits;
   }
   
   get currentFile(): string | undefined {
-    return this._currentFile;
+    return this._state.currentFile;
   }
   
   get isComparing(): boolean {
@@ -59,28 +99,40 @@ export class ExtensionState {
   }
   
   // Setters
+  set activeRepository(rootPath: string | undefined) {
+    this._activeRepository = rootPath;
+  }
+  
   set baseRef(ref: GitReference | undefined) {
-    this._baseRef = ref;
+    this._state.baseRef = ref;
   }
   
   set compareRef(ref: GitReference | undefined) {
-    this._compareRef = ref;
+    this._state.compareRef = ref;
+  }
+  
+  set comparisonOptions(options: ComparisonOptions) {
+    this._state.comparisonOptions = options;
+  }
+  
+  set rangeReview(review: RangeReview | undefined) {
+    this._state.rangeReview = review;
   }
   
   set branches(branches: string[]) {
-    this._branches = branches;
+    this._state.branches = branches;
   }
   
   set tags(tags: string[]) {
-    this._tags = tags;
+    this._state.tags = tags;
   }
   
   set commits(commits: GitCommit[]) {
-    this._commits = commits;
+    this._state.commits = commits;
   }
   
   set currentFile(file: string | undefined) {
-    this._currentFile = file;
+    this._state.currentFile = file;
   }
   
   set isComparing(comparing: boolean) {
@@ -91,26 +143,58 @@ export class ExtensionState {
     this._isAnalyzing = analyzing;
   }
   
-  // Methods to manage analysis results
-  getAnalysisResult(key: string): string | undefined {
-    return this._analysisResults.get(key);
-  }
-  
-  setAnalysisResult(key: string, result: string): void {
-    this._analysisResults.set(key, result);
-  }
-  
-  clearAnalysisResults(): void {
-    this._analysisResults.clear();
-  }
-  
-  // Reset the state
+  // Methods to manage repositories
+  
+  /**
+   * Keep state only for the given repositories, creating empty state for new ones.
+   * The active repository falls back to the first one if it was removed.
+   */
+  syncRepositories(rootPaths: string[]): void {
+    for (const rootPath of this.repositories) {
+      if (!rootPaths.includes(rootPath)) {
+        this._repositories.delete(rootPath);
+      }
+    }
+    
+    for (const rootPath of rootPaths) {
+      this._getRepositoryState(rootPath);
+    }
+    
+    if (!this._activeRepository || !this._repositories.has(this._activeRepository)) {
+      this._activeRepository = rootPaths[0];
+    }
+  }
+  
+  // Reset the state of the active repository
   reset(): void {
-    this._baseRef = undefined;
-    this._compareRef = undefined;
-    this._currentFile = undefined;
+    const state = this._state;
+    state.baseRef = undefined;
+    state.compareRef = undefined;
+    state.comparisonOptions = {};
+    state.rangeReview = undefined;
+    state.currentFile = undefined;
     this._isComparing = false;
     this._isAnalyzing = false;
-    this.clearAnalysisResults();
+  }
+  
+  // State of the active repository; a detached entry is used when none is open
+  private get _state(): RepositoryState {
+    return this._getRepositoryState(this._activeRepository || '');
+  }
+  
+  private _getRepositoryState(rootPath: string): RepositoryState {
+    let state = this._repositories.get(rootPath);
+    
+    if (!state) {
+      state = {
+        comparisonOptions: {},
+        branches: [],
+        tags: [],
+        commits: []
+      };
+      this._repositories.set(rootPath, state);
+    }
+    
+    return state;
   }
 }
\ No newline at end of file
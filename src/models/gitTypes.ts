@@ -6,7 +6,8 @@ export enum GitReferenceType {
   BRANCH = 'branch',
   TAG = 'tag',
   WORKING_TREE = 'working_tree',
-  STAGED = 'staged'
+  STAGED = 'staged',
+  STASH = 'stash'
 }
 
 /**
@@ -18,6 +19,63 @@ export interface GitReference {
   id?: string;
 }
 
+/**
+ * How the base reference of a comparison is interpreted
+ */
+export enum ComparisonMode {
+  // Plain two-point diff: base..compare
+  DIRECT = 'direct',
+  // Diff from the merge base of both references: base...compare
+  MERGE_BASE = 'merge_base',
+  // Combined diff of a merge commit against all its parents; the base is the first parent
+  COMBINED = 'combined'
+}
+
+/**
+ * Line diff algorithms supported by git
+ */
+export enum DiffAlgorithm {
+  MYERS = 'myers',
+  MINIMAL = 'minimal',
+  PATIENCE = 'patience',
+  HISTOGRAM = 'histogram'
+}
+
+/**
+ * Granularity of the segments computed inside changed lines
+ */
+export enum InlineDiffGranularity {
+  WORD = 'word',
+  CHAR = 'char'
+}
+
+/**
+ * Options that control how two references are compared
+ */
+export interface ComparisonOptions {
+  mode?: ComparisonMode;
+  // Ignore all whitespace when comparing lines (git diff -w)
+  ignoreAllWhitespace?: boolean;
+  // Ignore changes in the amount of whitespace (git diff -b)
+  ignoreWhitespaceAmount?: boolean;
+  // Ignore changes whose lines are all blank
+  ignoreBlankLines?: boolean;
+  // Ignore a carriage return at the end of a line, i.e. CRLF vs LF
+  ignoreLineEndings?: boolean;
+  // Line diff algorithm; git's default (Myers) when not set
+  algorithm?: DiffAlgorithm;
+  // Granularity of segments inside modified lines; words when not set
+  inlineGranularity?: InlineDiffGranularity;
+  // Ignore whitespace when matching moved blocks
+  ignoreWhitespaceInMoves?: boolean;
+  // Globs or git pathspecs of the files to compare; all files when empty
+  includePaths?: string[];
+  // Globs or git pathspecs of files left out of the comparison
+  excludePaths?: string[];
+  // Leave the workspace's intellidiff.excludePaths out of this comparison
+  ignoreDefaultExcludes?: boolean;
+}
+
 /**
  * Represents a Git commit
  */
@@ -29,6 +87,59 @@ export interface GitCommit {
   message: string;
 }
 
+/**
+ * A local branch and the remote-tracking branch it follows
+ */
+export interface BranchTracking {
+  name: string;
+  // Remote-tracking branch, e.g. origin/main; not set when the branch has no upstream
+  upstream?: string;
+  // Commits on the branch that are not on its upstream, and the other way round
+  ahead: number;
+  behind: number;
+  // The upstream is configured but its remote-tracking branch no longer exists
+  upstreamGone?: boolean;
+}
+
+/**
+ * An entry of the stash list
+ */
+export interface GitStash {
+  hash: string;
+  // Reflog name, e.g. stash@{0}
+  name: string;
+  message: string;
+  date: Date;
+  // Whether the stash also holds untracked files (git stash -u)
+  hasUntracked: boolean;
+}
+
+/**
+ * A commit that touched a file, with the file's path at that commit
+ */
+export interface FileRevision {
+  commit: GitCommit;
+  path: string;
+}
+
+/**
+ * Part of a repository that changed on disk
+ */
+export enum RepositoryChangeKind {
+  // HEAD, branches, tags, remote-tracking branches or stashes
+  REFS = 'refs',
+  INDEX = 'index',
+  WORKING_TREE = 'workingTree'
+}
+
+/**
+ * Changes seen in one repository since the last report
+ */
+export interface RepositoryChange {
+  rootPath: string;
+  kinds: RepositoryChangeKind[];
+}
+
 /**
  * Status of a file in diff
  */
@@ -37,7 +148,10 @@ export enum FileStatus {
   MODIFIED = 'modified',
   DELETED = 'deleted',
   RENAMED = 'renamed',
-  BINARY = 'binary'
+  COPIED = 'copied',
+  BINARY = 'binary',
+  // Left unmerged by a merge, rebase or cherry-pick
+  CONFLICTED = 'conflicted'
 }
 
 /**
@@ -50,6 +164,10 @@ export interface DiffFile {
   additions: number;
   deletions: number;
   isBinary: boolean;
+  // Similarity to the old path in percent, for renamed and copied files
+  similarity?: number;
+  // Lines of a merge commit's combined diff that come from none of its parents
+  evilMergeLines?: number;
 }
 
 /**
@@ -61,6 +179,42 @@ export interface DiffChunk {
   newStart: number;
   newLines: number;
   changes: DiffChange[];
+  // Blocks of this chunk that were moved rather than rewritten
+  moves?: MovedBlock[];
+  // Lines of every parent in a combined diff; the first parent's are also oldStart and oldLines
+  parents?: ParentRange[];
+}
+
+/**
+ * Lines of one parent of a merge commit covered by a chunk of its combined diff
+ */
+export interface ParentRange {
+  start: number;
+  lines: number;
+}
+
+/**
+ * Direction of a moved block, seen from the chunk that holds it
+ */
+export enum MoveDirection {
+  // Lines removed here because they moved elsewhere
+  OUT = 'out',
+  // Lines added here because they moved from elsewhere
+  IN = 'in'
+}
+
+/**
+ * A block of lines that moved within a file or across files.
+ * Lines are 1-based; an OUT block is numbered on the old side and
+ * links to the new side, an IN block the other way round.
+ */
+export interface MovedBlock {
+  direction: MoveDirection;
+  startLine: number;
+  lineCount: number;
+  // The other end of the move
+  linkedPath: string;
+  linkedStartLine: number;
 }
 
 /**
@@ -69,7 +223,20 @@ export interface DiffChunk {
 export enum ChangeType {
   ADD = 'add',
   DELETE = 'delete',
-  NORMAL = 'normal'
+  NORMAL = 'normal',
+  // Deleted line that is part of a block moved elsewhere
+  MOVED_OUT = 'moved_out',
+  // Added line that is part of a block moved from elsewhere
+  MOVED_IN = 'moved_in'
+}
+
+/**
+ * A piece of a changed line. Unchanged pieces use ChangeType.NORMAL,
+ * the pieces that differ from the paired line use ADD or DELETE.
+ */
+export interface DiffSegment {
+  type: ChangeType;
+  content: string;
 }
 
 /**
@@ -78,7 +245,19 @@ export enum ChangeType {
 export interface DiffChange {
   type: ChangeType;
   content: string;
-  lineNumber?: number;
+  // 1-based line in the old and new file; a deleted line has only the old one, an added line only the new one
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  // Word or character segments, set on deleted and added lines that pair up as a modification
+  segments?: DiffSegment[];
+  // Set on the last line of a side that has no newline at the end of the file
+  noNewline?: boolean;
+  // Marker columns of a combined diff line, one per parent: '+' when the line is in
+  // the merge but not in that parent, '-' when it is in that parent but not the merge
+  parentMarkers?: string;
+  // Set on combined diff lines added to or removed from every parent, i.e. changes
+  // the merge commit made itself ("evil merge") rather than took from a parent
+  isEvilMerge?: boolean;
 }
 
 /**
@@ -90,8 +269,71 @@ export interface FileDiff {
   status: FileStatus;
   isBinary: boolean;
   chunks: DiffChunk[];
+  // File modes from the diff headers, e.g. 100644 or 100755; not set when the diff does not show them
+  oldMode?: string;
+  newMode?: string;
+  // Similarity to the old path in percent, for renamed and copied files
+  similarity?: number;
   oldContent?: string;
   newContent?: string;
+  additions?: number;
+  deletions?: number;
+  // Lines of context loaded around each chunk
+  contextLines?: number;
+  // Whether the context already covers the whole file
+  fullContext?: boolean;
+  // Set when the file is over the size limits and was loaded without chunks or contents
+  truncated?: boolean;
+  // Git object names of the old and new contents; hashed from the file for the working tree
+  oldBlobId?: string;
+  newBlobId?: string;
+  // Number of parents of a merge commit's combined diff; not set for ordinary diffs
+  parentCount?: number;
+  // Git object names of the file in every parent of a combined diff, missing where a parent lacks it
+  parentBlobIds?: (string | undefined)[];
+}
+
+/**
+ * Chunk of a file diff picked for a patch, or some of its changed lines
+ */
+export interface HunkSelection {
+  chunkIndex: number;
+  // Indexes into the chunk's changes of the added and deleted lines to keep; the whole chunk when not set
+  lines?: number[];
+}
+
+/**
+ * How `git apply` applies a patch
+ */
+export interface PatchApplyOptions {
+  // Only check whether the patch applies cleanly
+  check?: boolean;
+  // Apply to the index instead of the working tree
+  cached?: boolean;
+  // Apply the patch backwards, undoing it
+  reverse?: boolean;
+}
+
+/**
+ * How much of a file diff to load
+ */
+export interface FileDiffLoadOptions {
+  // Lines of context around each chunk; the intellidiff.diffContextLines setting when not set
+  contextLines?: number;
+  // Load the whole file as context
+  fullContext?: boolean;
+  // Load the file even if it is over the size limits
+  ignoreSizeLimits?: boolean;
+}
+
+/**
+ * Two files or two folders compared on disk, outside of git history
+ */
+export interface PathComparison {
+  // Absolute paths of the old and the new side
+  basePath: string;
+  comparePath: string;
+  isFolder: boolean;
 }
 
 /**
@@ -101,8 +343,28 @@ export interface DiffAnalysis {
   filePath: string;
   summary: string;
   changes: ChangeAnalysis[];
-  potentialIssues?: string[];
+  potentialIssues?: CodeIssue[];
   suggestions?: string[];
+  // Set when the analyzer was not reachable and a basic analysis was made instead
+  isFallback?: boolean;
+}
+
+/**
+ * An analysis kept in the analysis cache
+ */
+export interface CachedAnalysis {
+  analysis: DiffAnalysis;
+  // When the analysis was made, in milliseconds since the epoch
+  analyzedAt: number;
+}
+
+/**
+ * A potential issue found in the changed lines
+ */
+export interface CodeIssue {
+  description: string;
+  // 1-based line of the new file the issue was first found on
+  line?: number;
 }
 
 /**
@@ -114,4 +376,65 @@ export interface ChangeAnalysis {
   description: string;
   impact?: string;
   codeContext?: string;
-}
\ No newline at end of file
+}
+/**
+ * A conflicted region of a file, between the <<<<<<< and >>>>>>> markers
+ */
+export interface ConflictHunk {
+  // 1-based lines of the opening and closing markers in the working tree file
+  startLine: number;
+  endLine: number;
+  ours: string[];
+  // Common ancestor lines; from the markers with the diff3 conflict style, otherwise from the index stages
+  base?: string[];
+  theirs: string[];
+  // Labels after the markers, e.g. HEAD and the merged branch
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+/**
+ * A path left unmerged, with the versions of index stages 1 to 3.
+ * A stage is missing when that side deleted the file or never had it.
+ */
+export interface ConflictFile {
+  path: string;
+  base?: string;
+  ours?: string;
+  theirs?: string;
+  // Conflict hunks still in the working tree file
+  hunks: ConflictHunk[];
+}
+
+/**
+ * How a proposed resolution combines the sides of a conflict hunk
+ */
+export enum ResolutionStrategy {
+  OURS = 'ours',
+  THEIRS = 'theirs',
+  BOTH = 'both',
+  // Needs a manual edit; no lines are proposed
+  MANUAL = 'manual'
+}
+
+/**
+ * AI explanation and proposed resolution of one conflict hunk
+ */
+export interface ConflictResolution {
+  hunkIndex: number;
+  oursIntent: string;
+  theirsIntent: string;
+  strategy: ResolutionStrategy;
+  // Lines that replace the whole hunk and its markers; not set for manual resolutions
+  lines?: string[];
+  explanation: string;
+}
+
+/**
+ * AI analysis of a conflicted file
+ */
+export interface ConflictAnalysis {
+  filePath: string;
+  summary: string;
+  resolutions: ConflictResolution[];
+}
@@ -1,7 +1,33 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { GitService } from '../services/gitService';
 import { AIService } from '../services/aiService';
-import { GitReference, DiffAnalysis, FileDiff } from '../models/gitTypes';
+import { AnalysisCache } from '../services/analysisCache';
+import { FileCompareService } from '../services/fileCompareService';
+import {
+  GitReference,
+  DiffAnalysis,
+  FileDiff,
+  FileDiffLoadOptions,
+  ComparisonOptions,
+  ComparisonMode,
+  ChangeType,
+  DiffChunk,
+  GitReferenceType,
+  MovedBlock,
+  MoveDirection,
+  PathComparison
+} from '../models/gitTypes';
+import { getRefLabel } from '../utils/refUtils';
+import { escapeHtml } from '../utils/htmlUtils';
+
+// Lines of context added each time the context is expanded
+const CONTEXT_EXPANSION_STEP = 20;
+
+/**
+ * What can be done with the hunks of a diff; each runs the matching intellidiff.<action>Hunks command
+ */
+type HunkAction = 'stage' | 'unstage' | 'discard' | 'apply';
 
 /**
  * WebView provider for the AI analysis view
@@ -11,24 +37,94 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _currentFileDiff?: FileDiff;
   private _currentAnalysis?: DiffAnalysis;
+  private _baseRef?: GitReference;
+  private _compareRef?: GitReference;
+  private _options: ComparisonOptions = {};
+  private _oldFilePath?: string;
+  private _loadOptions: FileDiffLoadOptions = {};
+  // Patch file the current file comes from, when it was not loaded from refs
+  private _patchUri?: vscode.Uri;
+  // Files or folders on disk the current file comes from, when it was not loaded from refs
+  private _pathComparison?: PathComparison;
+  // What can be done with the hunks of the current file, see _loadHunkActions
+  private _hunkActions: HunkAction[] = [];
   private _isLoading: boolean = false;
+  // When the shown analysis was made, if it came from the cache
+  private _cachedAt?: number;
+  // Set while the current file is analyzed again without the cache
+  private _isReanalyzing: boolean = false;
   
   constructor(
     private readonly _extensionUri: vscode.Uri,
     private readonly _gitService: GitService,
-    private readonly _aiService: AIService
+    private readonly _aiService: AIService,
+    private readonly _analysisCache: AnalysisCache,
+    private readonly _fileCompareService: FileCompareService
   ) {}
   
   /**
-   * Analyze a specific file
+   * Analyze a specific file.
+   * Pass the old path when the file was renamed between the refs.
    */
   public async analyzeFile(
     baseRef: GitReference,
     compareRef: GitReference,
-    filePath: string
+    filePath: string,
+    options: ComparisonOptions = {},
+    oldFilePath: string = filePath,
+    loadOptions: FileDiffLoadOptions = {}
+  ): Promise<void> {
+    this._isLoading = true;
+    this._baseRef = baseRef;
+    this._compareRef = compareRef;
+    this._options = options;
+    this._oldFilePath = oldFilePath;
+    this._loadOptions = loadOptions;
+    this._patchUri = undefined;
+    this._pathComparison = undefined;
+    
+    await this._loadAndAnalyze(filePath, async () => {
+      const [fileDiff, hunkActions] = await Promise.all([
+        this._gitService.getFileDiff(baseRef, compareRef, filePath, options, oldFilePath, loadOptions),
+        this._loadHunkActions(baseRef, compareRef, options, filePath, oldFilePath)
+      ]);
+      this._hunkActions = hunkActions;
+      return fileDiff;
+    });
+  }
+  
+  /**
+   * Analyze a file of two files or folders compared on disk.
+   * Pass the old path when it differs, i.e. for two compared files with different names.
+   */
+  public async analyzeComparedFile(
+    comparison: PathComparison,
+    filePath: string,
+    oldFilePath: string = filePath,
+    loadOptions: FileDiffLoadOptions = {}
   ): Promise<void> {
     this._isLoading = true;
+    this._baseRef = undefined;
+    this._compareRef = undefined;
+    this._options = {};
+    this._oldFilePath = oldFilePath;
+    this._loadOptions = loadOptions;
+    this._patchUri = undefined;
+    this._pathComparison = comparison;
+    this._hunkActions = [];
     
+    await this._loadAndAnalyze(filePath, () => this._fileCompareService.getFileDiff(
+      comparison,
+      filePath,
+      oldFilePath,
+      loadOptions
+    ));
+  }
+  
+  /**
+   * Load the diff of a file and show its analysis, or a summary for binary and large files
+   */
+  private async _loadAndAnalyze(filePath: string, loadFileDiff: () => Promise<FileDiff>): Promise<void> {
     try {
       // Update the view to show loading state
       if (this._view) {
@@ -36,11 +132,7 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
       }
       
       // Get the file diff
-      this._currentFileDiff = await this._gitService.getFileDiff(
-        baseRef,
-        compareRef,
-        filePath
-      );
+      this._currentFileDiff = await loadFileDiff();
       
       // If it's a binary file, handle specially
       if (this._currentFileDiff.isBinary) {
@@ -51,8 +143,17 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
         return;
       }
       
+      // Files over the size limits are summarized without analysis
+      if (this._currentFileDiff.truncated) {
+        this._currentAnalysis = undefined;
+        if (this._view) {
+          this._view.webview.html = this._getTruncatedFileHtml(this._currentFileDiff);
+        }
+        return;
+      }
+      
       // Get the AI analysis
-      this._currentAnalysis = await this._aiService.analyzeFileDiff(this._currentFileDiff);
+      this._currentAnalysis = await this._analyze(this._currentFileDiff);
       
       // Update the view - Fixed optional chaining assignment
       if (this._view) {
@@ -71,6 +172,130 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
     }
   }
   
+  /**
+   * Analyze a file of a patch file. The patch holds only the diff,
+   * so there is no context to expand and no contents to compare.
+   */
+  public async analyzePatchFile(patchUri: vscode.Uri, fileDiff: FileDiff): Promise<void> {
+    this._isLoading = true;
+    this._baseRef = undefined;
+    this._compareRef = undefined;
+    this._options = {};
+    this._oldFilePath = fileDiff.oldPath;
+    this._loadOptions = {};
+    this._patchUri = patchUri;
+    this._pathComparison = undefined;
+    this._hunkActions = [];
+    this._currentFileDiff = fileDiff;
+    this._currentAnalysis = undefined;
+    
+    try {
+      if (this._view) {
+        this._view.webview.html = this._getLoadingHtml(fileDiff.newPath);
+      }
+      
+      if (fileDiff.isBinary) {
+        if (this._view) {
+          this._view.webview.html = this._getErrorHtml(`${fileDiff.newPath} is a binary file; the patch does not show its changes`);
+        }
+        return;
+      }
+      
+      this._currentAnalysis = await this._analyze(fileDiff);
+      
+      if (this._view) {
+        this._view.webview.html = this._getAnalysisHtml();
+      }
+    } catch (error) {
+      console.error('Error analyzing patch file:', error);
+      
+      if (this._view) {
+        this._view.webview.html = this._getErrorHtml(`Failed to analyze file: ${error}`);
+      }
+    } finally {
+      this._isLoading = false;
+    }
+  }
+  
+  /**
+   * Analyze the current file again with different load options,
+   * e.g. more context or without the size limits
+   */
+  public async reloadFile(loadOptions: FileDiffLoadOptions): Promise<void> {
+    if (!this._currentFileDiff || this._isLoading) {
+      return;
+    }
+    
+    if (this._pathComparison) {
+      await this.analyzeComparedFile(
+        this._pathComparison,
+        this._currentFileDiff.newPath,
+        this._oldFilePath,
+        { ...this._loadOptions, ...loadOptions }
+      );
+      return;
+    }
+    
+    if (!this._baseRef || !this._compareRef) {
+      return;
+    }
+    
+    await this.analyzeFile(
+      this._baseRef,
+      this._compareRef,
+      this._currentFileDiff.newPath,
+      this._options,
+      this._oldFilePath,
+      { ...this._loadOptions, ...loadOptions }
+    );
+  }
+  
+  /**
+   * Analyze the current file again, replacing its cached analysis
+   */
+  public async reanalyze(): Promise<void> {
+    if (!this._currentFileDiff || this._isLoading) {
+      return;
+    }
+    
+    this._isReanalyzing = true;
+    try {
+      if (this._patchUri) {
+        await this.analyzePatchFile(this._patchUri, this._currentFileDiff);
+      } else {
+        await this.reloadFile({});
+      }
+    } finally {
+      this._isReanalyzing = false;
+    }
+  }
+  
+  /**
+   * Get the diff of the file being analyzed
+   */
+  public getFileDiff(): FileDiff | undefined {
+    return this._currentFileDiff;
+  }
+  
+  /**
+   * Get the reference on the new side of the analyzed diff
+   */
+  public getCompareRef(): GitReference | undefined {
+    return this._compareRef;
+  }
+  
+  /**
+   * Clear the current analysis, e.g. when the analyzed file is no longer part of the comparison
+   */
+  public clear(): void {
+    this._currentFileDiff = undefined;
+    this._currentAnalysis = undefined;
+    
+    if (this._view) {
+      this._view.webview.html = this._getInitialHtml();
+    }
+  }
+  
   /**
    * Ask a question about the current file
    */
@@ -117,6 +342,32 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
     }
   }
   
+  /**
+   * Get the analysis of a file diff from the cache, or from the analyzer when
+   * it is not cached or the file is being analyzed again
+   */
+  private async _analyze(fileDiff: FileDiff): Promise<DiffAnalysis> {
+    const key = this._analysisCache.getKey(fileDiff, this._options);
+    this._cachedAt = undefined;
+    
+    if (key && !this._isReanalyzing) {
+      const cached = await this._analysisCache.get(key);
+      if (cached) {
+        this._cachedAt = cached.analyzedAt;
+        return cached.analysis;
+      }
+    }
+    
+    const analysis = await this._aiService.analyzeFileDiff(fileDiff);
+    
+    // Basic analyses made while the analyzer was down are not kept, so it is tried again next time
+    if (key && !analysis.isFallback) {
+      this._analysisCache.set(key, analysis).catch(() => {});
+    }
+    
+    return analysis;
+  }
+  
   /**
    * Resolve the webview view
    */
@@ -142,8 +393,30 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
         case 'askQuestion':
           await this.askQuestion(message.question);
           break;
+        case 'loadAnyway':
+          await this.reloadFile({ ignoreSizeLimits: true });
+          break;
+        case 'expandContext':
+          await this.reloadFile(message.full
+            ? { fullContext: true }
+            : { contextLines: (this._currentFileDiff?.contextLines || 0) + CONTEXT_EXPANSION_STEP });
+          break;
+        case 'hunkAction':
+          if (this._hunkActions.includes(message.action)) {
+            await vscode.commands.executeCommand(`intellidiff.${message.action}Hunks`, message.selections);
+          }
+          break;
+        case 'checkoutFile':
+          await vscode.commands.executeCommand('intellidiff.checkoutFile');
+          break;
+        case 'reanalyze':
+          await this.reanalyze();
+          break;
         case 'openFile':
-          const document = await vscode.workspace.openTextDocument(message.filePath);
+          const document = await vscode.workspace.openTextDocument(this._pathComparison ?
+            this._fileCompareService.resolvePath(this._pathComparison, message.filePath, 'compare') :
+            this._gitService.resolvePath(message.filePath)
+          );
           await vscode.window.showTextDocument(document);
           
           // Highlight the range if provided
@@ -243,6 +516,11 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
             margin-bottom: 15px;
             word-break: break-all;
         }
+        .refs {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: -10px 0 15px 0;
+        }
         .loading {
             display: flex;
             align-items: center;
@@ -267,6 +545,7 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
     <div class="container">
         <h3>AI Analysis</h3>
         <div class="file-path">${filePath}</div>
+        ${this._renderRefs()}
         <div class="loading">
             <div class="spinner"></div>
             Analyzing changes...
@@ -289,6 +568,7 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
     const changes = this._currentAnalysis.changes || [];
     const issues = this._currentAnalysis.potentialIssues || [];
     const suggestions = this._currentAnalysis.suggestions || [];
+    const moves = this._currentFileDiff.chunks.flatMap(chunk => chunk.moves || []);
     
     return `<!DOCTYPE html>
 <html lang="en">
@@ -313,6 +593,11 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
             margin-bottom: 15px;
             word-break: break-all;
         }
+        .refs {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: -10px 0 15px 0;
+        }
         .summary {
             margin-bottom: 20px;
             padding: 10px;
@@ -355,6 +640,12 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
         .issues-list li, .suggestions-list li {
             margin-bottom: 5px;
         }
+        .issue-link {
+            cursor: pointer;
+        }
+        .issue-link:hover {
+            color: var(--vscode-textLink-activeForeground);
+        }
         .question-section {
             margin-top: 25px;
             border-top: 1px solid var(--vscode-panel-border);
@@ -407,6 +698,79 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-descriptionForeground);
             font-style: italic;
         }
+        .context-bar {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: -10px 0 15px 0;
+        }
+        .link-button {
+            background: none;
+            border: none;
+            padding: 0 0 0 8px;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .link-button:hover {
+            color: var(--vscode-textLink-activeForeground);
+        }
+        .hunk {
+            margin-bottom: 12px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+        }
+        .hunk-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            padding: 4px 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+        .hunk-actions {
+            display: flex;
+            gap: 8px;
+        }
+        .hunk-lines {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            overflow-x: auto;
+        }
+        .hunk-line {
+            display: flex;
+            align-items: center;
+            white-space: pre;
+            padding-right: 8px;
+        }
+        .hunk-line input, .hunk-line .line-checkbox {
+            width: 16px;
+            margin: 0 4px;
+            flex-shrink: 0;
+        }
+        .line-number {
+            display: inline-block;
+            min-width: 3em;
+            padding-right: 6px;
+            text-align: right;
+            flex-shrink: 0;
+            color: var(--vscode-editorLineNumber-foreground);
+        }
+        .line-add {
+            background-color: var(--vscode-diffEditor-insertedLineBackground, rgba(155, 185, 85, 0.2));
+        }
+        .line-delete {
+            background-color: var(--vscode-diffEditor-removedLineBackground, rgba(255, 0, 0, 0.2));
+        }
+        .line-evil {
+            outline: 1px dashed var(--vscode-editorWarning-foreground, #cca700);
+            outline-offset: -1px;
+        }
+        .hunk-note {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 8px;
+        }
         @keyframes fadeIn {
             from { opacity: 0; }
             to { opacity: 1; }
@@ -417,6 +781,9 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
     <div class="container">
         <h3>AI Analysis</h3>
         <div class="file-path">${filePath}</div>
+        ${this._renderRefs()}
+        ${this._renderContextBar()}
+        ${this._renderCachedNote()}
         
         <div class="summary">${summary}</div>
         
@@ -432,10 +799,19 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
             '<div class="no-items">No detailed changes analysis available.</div>'
         }
         
+        ${moves.length > 0 ? `
+        <div class="section-title">Moved Code</div>
+        ${moves.map(move => this._renderMove(filePath, move)).join('')}
+        ` : ''}
+        
+        ${this._renderHunks()}
+        
         ${issues.length > 0 ? `
         <div class="section-title">Potential Issues</div>
         <ul class="issues-list">
-            ${issues.map(issue => `<li>${issue}</li>`).join('')}
+            ${issues.map(issue => issue.line !== undefined ?
+                `<li class="issue-link" onclick="openFile('${filePath}', ${issue.line}, ${issue.line})">Line ${issue.line}: ${issue.description}</li>` :
+                `<li>${issue.description}</li>`).join('')}
         </ul>
         ` : ''}
         
@@ -463,6 +839,16 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
         const vscode = acquireVsCodeApi();
         let questionHistory = [];
         
+        // Keep the scroll position when the same file is analyzed again, e.g. after a refresh
+        const viewKey = ${this._getViewKey()};
+        const state = vscode.getState();
+        if (state && state.viewKey === viewKey) {
+            window.scrollTo(0, state.scrollY);
+        }
+        window.addEventListener('scroll', () => {
+            vscode.setState({ viewKey, scrollY: window.scrollY });
+        });
+        
         function openFile(filePath, startLine, endLine) {
             vscode.postMessage({
                 command: 'openFile',
@@ -472,6 +858,37 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
             });
         }
         
+        function hunkAction(action, chunkIndex) {
+            // Checked lines of the hunk, or the whole hunk if none are checked
+            const lines = Array.from(document.querySelectorAll('input[data-chunk="' + chunkIndex + '"]:checked'))
+                .map(input => parseInt(input.dataset.line, 10));
+            
+            vscode.postMessage({
+                command: 'hunkAction',
+                action,
+                selections: [{ chunkIndex, lines: lines.length > 0 ? lines : undefined }]
+            });
+        }
+        
+        function checkoutFile() {
+            vscode.postMessage({
+                command: 'checkoutFile'
+            });
+        }
+        
+        function reanalyze() {
+            vscode.postMessage({
+                command: 'reanalyze'
+            });
+        }
+        
+        function expandContext(full) {
+            vscode.postMessage({
+                command: 'expandContext',
+                full
+            });
+        }
+        
         function askQuestion() {
             const input = document.getElementById('questionInput');
             const question = input.value.trim();
@@ -579,6 +996,11 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
             margin-bottom: 15px;
             word-break: break-all;
         }
+        .refs {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: -10px 0 15px 0;
+        }
         .binary-notice {
             background-color: var(--vscode-editor-inactiveSelectionBackground);
             padding: 10px;
@@ -601,6 +1023,7 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
     <div class="container">
         <h3>Binary File Analysis</h3>
         <div class="file-path">${fileDiff.newPath}</div>
+        ${this._renderRefs()}
         
         <div class="binary-notice">
             This is a binary file. Detailed content analysis is not available.
@@ -636,6 +1059,329 @@ export class AnalysisViewProvider implements vscode.WebviewViewProvider {
 </html>`;
   }
   
+  /**
+   * Get HTML for a file over the size limits, with its line counts and a way to load it anyway
+   */
+  private _getTruncatedFileHtml(fileDiff: FileDiff): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>IntelliDiff Large File</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 0;
+            margin: 0;
+        }
+        .container {
+            padding: 20px;
+        }
+        .file-path {
+            font-weight: bold;
+            margin-bottom: 15px;
+            word-break: break-all;
+        }
+        .refs {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: -10px 0 15px 0;
+        }
+        .truncated-notice {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            padding: 10px;
+            border-radius: 3px;
+            margin: 15px 0;
+        }
+        .info-item {
+            margin-bottom: 8px;
+        }
+        .label {
+            font-weight: bold;
+            margin-right: 5px;
+        }
+        .load-button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 12px;
+            cursor: pointer;
+            border-radius: 2px;
+        }
+        .load-button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h3>Large File</h3>
+        <div class="file-path">${fileDiff.newPath}</div>
+        ${this._renderRefs()}
+        
+        <div class="truncated-notice">
+            This file is over the size limits, so its changes were not loaded.
+            Loading it may take a while.
+        </div>
+        
+        <div class="info-item">
+            <span class="label">File status:</span>
+            ${fileDiff.status}
+        </div>
+        
+        <div class="info-item">
+            <span class="label">Lines added:</span>
+            ${fileDiff.additions ?? 0}
+        </div>
+        
+        <div class="info-item">
+            <span class="label">Lines deleted:</span>
+            ${fileDiff.deletions ?? 0}
+        </div>
+        
+        <p>
+            <button class="load-button" onclick="loadAnyway()">Load anyway</button>
+        </p>
+    </div>
+    
+    <script>
+        const vscode = acquireVsCodeApi();
+        
+        function loadAnyway() {
+            vscode.postMessage({ command: 'loadAnyway' });
+        }
+    </script>
+</body>
+</html>`;
+  }
+  
+  /**
+   * Render a moved block; clicking it opens the block's new location
+   */
+  private _renderMove(filePath: string, move: MovedBlock): string {
+    const endLine = move.startLine + move.lineCount - 1;
+    const linkedEndLine = move.linkedStartLine + move.lineCount - 1;
+    
+    if (move.direction === MoveDirection.IN) {
+      return `
+            <div class="change-item" onclick="openFile('${filePath}', ${move.startLine}, ${endLine})">
+                <div class="change-lines">Lines ${move.startLine}-${endLine}</div>
+                <div class="change-description">Moved here from ${move.linkedPath} line ${move.linkedStartLine}</div>
+            </div>`;
+    }
+    
+    return `
+            <div class="change-item" onclick="openFile('${move.linkedPath}', ${move.linkedStartLine}, ${linkedEndLine})">
+                <div class="change-lines">Old lines ${move.startLine}-${endLine}</div>
+                <div class="change-description">Moved to ${move.linkedPath} line ${move.linkedStartLine}</div>
+            </div>`;
+  }
+  
+  /**
+   * Get a key for the analyzed file and comparison, as a script literal
+   */
+  private _getViewKey(): string {
+    const key = [
+      this._patchUri?.toString(),
+      this._pathComparison,
+      this._baseRef,
+      this._compareRef,
+      this._currentFileDiff?.oldPath,
+      this._currentFileDiff?.newPath
+    ];
+    
+    // Escape "<" so the literal cannot close the script element
+    return JSON.stringify(JSON.stringify(key)).replace(/</g, '\\u003c');
+  }
+  
+  /**
+   * Render the chunks of the diff with buttons to stage, unstage or discard them.
+   * Checking lines limits an action to those lines of the hunk.
+   */
+  private _renderHunks(): string {
+    const chunks = this._currentFileDiff?.chunks || [];
+    if (chunks.length === 0) {
+      return '';
+    }
+    
+    // Diffs that ignore whitespace do not apply as patches, and neither do combined diffs
+    const ignoresWhitespace = this._ignoresWhitespace();
+    const isCombined = this._options.mode === ComparisonMode.COMBINED;
+    const actions = ignoresWhitespace || isCombined ? [] : this._hunkActions;
+    
+    let note = '';
+    if (isCombined) {
+      note = `<div class="hunk-note">Markers show each parent's side: + is not in that parent, - is not in the merge.
+            Lines outlined come from no parent. Compare with a single parent to apply hunks.</div>`;
+    } else if (actions.includes('apply')) {
+      note = `<div class="hunk-note">Check lines to apply only those lines of a hunk, or
+            <button class="link-button" onclick="checkoutFile()">check out the whole file</button>
+            from ${escapeHtml(getRefLabel(this._compareRef!))}.</div>`;
+    } else if (actions.length > 0) {
+      note = '<div class="hunk-note">Check lines to act on only those lines of a hunk.</div>';
+    } else if (ignoresWhitespace && this._hunkActions.length > 0) {
+      note = '<div class="hunk-note">Hunk actions are not available while whitespace is ignored.</div>';
+    } else if (this._compareRef?.type === GitReferenceType.WORKING_TREE) {
+      note = '<div class="hunk-note">To stage or discard hunks, compare the working tree with the index, or with HEAD while nothing of the file is staged.</div>';
+    } else if (this._compareRef?.type === GitReferenceType.STAGED) {
+      note = '<div class="hunk-note">To unstage hunks, compare the index with HEAD.</div>';
+    }
+    
+    return `
+        <div class="section-title">Hunks</div>
+        ${note}
+        ${chunks.map((chunk, i) => this._renderHunk(chunk, i, actions)).join('')}`;
+  }
+  
+  /**
+   * Render one chunk; added and deleted lines get a checkbox when there are actions
+   */
+  private _renderHunk(chunk: DiffChunk, chunkIndex: number, actions: HunkAction[]): string {
+    const labels: Record<HunkAction, string> = {
+      stage: 'Stage',
+      unstage: 'Unstage',
+      discard: 'Discard',
+      apply: 'Apply to Working Tree'
+    };
+    
+    const lines = chunk.changes.map((change, i) => {
+      const lineNumbers = `<span class="line-number">${change.oldLineNumber ?? ''}</span><span class="line-number">${change.newLineNumber ?? ''}</span>`;
+      
+      if (change.type === ChangeType.NORMAL) {
+        return `<div class="hunk-line">${actions.length > 0 ? '<span class="line-checkbox"></span>' : ''}${lineNumbers}${change.parentMarkers ?? ' '}${escapeHtml(change.content)}</div>`;
+      }
+      
+      // Moved lines are still added or deleted here
+      const isAdd = change.type === ChangeType.ADD || change.type === ChangeType.MOVED_IN;
+      const checkbox = actions.length > 0 ? `<input type="checkbox" data-chunk="${chunkIndex}" data-line="${i}">` : '';
+      const evilClass = change.isEvilMerge ? ' line-evil' : '';
+      const title = change.isEvilMerge ? ' title="Comes from no parent: the merge itself made this change"' : '';
+      return `<label class="hunk-line ${isAdd ? 'line-add' : 'line-delete'}${evilClass}"${title}>${checkbox}${lineNumbers}${change.parentMarkers ?? (isAdd ? '+' : '-')}${escapeHtml(change.content)}</label>`;
+    });
+    
+    // A combined diff has a range per parent and one more "@" than it has parents
+    const oldRanges = chunk.parents || [{ start: chunk.oldStart, lines: chunk.oldLines }];
+    const signs = '@'.repeat(oldRanges.length + 1);
+    const ranges = oldRanges.map(range => `-${range.start},${range.lines}`).join(' ');
+    
+    return `
+        <div class="hunk">
+            <div class="hunk-header">
+                <span>${signs} ${ranges} +${chunk.newStart},${chunk.newLines} ${signs}</span>
+                <span class="hunk-actions">
+                    ${actions.map(action => `<button class="link-button" onclick="hunkAction('${action}', ${chunkIndex})">${labels[action]}</button>`).join('')}
+                </span>
+            </div>
+            <div class="hunk-lines">${lines.join('')}</div>
+        </div>`;
+  }
+  
+  /**
+   * Get the actions that apply to hunks of a comparison: staging and discarding
+   * working tree changes, unstaging changes in the index, or bringing changes
+   * from a revision to the working tree. Index and working tree actions apply
+   * the diff as a patch to the index or working tree, so they are only offered
+   * when the diff is relative to what that patch changes: the index for working
+   * tree changes, or HEAD as long as the index matches it for the file, and
+   * HEAD for changes in the index.
+   */
+  private async _loadHunkActions(
+    baseRef: GitReference,
+    compareRef: GitReference,
+    options: ComparisonOptions,
+    filePath: string,
+    oldFilePath: string
+  ): Promise<HunkAction[]> {
+    // A merge-base comparison is relative to the merge base, not to the base itself,
+    // and takes HEAD in place of the index
+    const isDirect = options.mode !== ComparisonMode.MERGE_BASE && options.mode !== ComparisonMode.COMBINED;
+    
+    switch (compareRef.type) {
+      case GitReferenceType.WORKING_TREE:
+        if (isDirect && (baseRef.type === GitReferenceType.STAGED ||
+            (await this._gitService.isHead(baseRef) && !await this._gitService.hasStagedChanges(filePath, oldFilePath)))) {
+          return ['stage', 'discard'];
+        }
+        return [];
+      case GitReferenceType.STAGED:
+        return isDirect && await this._gitService.isHead(baseRef) ? ['unstage'] : [];
+      default:
+        return ['apply'];
+    }
+  }
+  
+  /**
+   * Check whether the comparison ignores any kind of whitespace change
+   */
+  private _ignoresWhitespace(): boolean {
+    const options = this._options;
+    return !!(options.ignoreAllWhitespace || options.ignoreWhitespaceAmount ||
+      options.ignoreBlankLines || options.ignoreLineEndings);
+  }
+  
+  /**
+   * Render which references are being compared, old side first, or the patch the file comes from
+   */
+  private _renderRefs(): string {
+    if (this._patchUri) {
+      return `<div class="refs">From patch ${escapeHtml(path.basename(this._patchUri.fsPath))}</div>`;
+    }
+    
+    if (this._pathComparison) {
+      const { basePath, comparePath } = this._pathComparison;
+      return `<div class="refs" title="${escapeHtml(basePath)} → ${escapeHtml(comparePath)}">${escapeHtml(path.basename(basePath))} → ${escapeHtml(path.basename(comparePath))}</div>`;
+    }
+    
+    if (!this._baseRef || !this._compareRef) {
+      return '';
+    }
+    
+    if (this._options.mode === ComparisonMode.COMBINED) {
+      const parentCount = this._currentFileDiff?.parentCount;
+      return `<div class="refs">Combined diff of ${escapeHtml(getRefLabel(this._compareRef))} against ${parentCount ? `its ${parentCount} parents` : 'its parents'}</div>`;
+    }
+    
+    const separator = this._options.mode === ComparisonMode.MERGE_BASE ? '...' : '→';
+    return `<div class="refs">${escapeHtml(getRefLabel(this._baseRef))} ${separator} ${escapeHtml(getRefLabel(this._compareRef))}</div>`;
+  }
+  
+  /**
+   * Render how much context was loaded around the changes, with buttons to load more
+   */
+  private _renderContextBar(): string {
+    const fileDiff = this._currentFileDiff;
+    if (!fileDiff || fileDiff.contextLines === undefined) {
+      return '';
+    }
+    
+    if (fileDiff.fullContext) {
+      return '<div class="context-bar">Context: whole file</div>';
+    }
+    
+    return `<div class="context-bar">
+            Context: ${fileDiff.contextLines} lines
+            <button class="link-button" onclick="expandContext(false)">More context</button>
+            <button class="link-button" onclick="expandContext(true)">Whole file</button>
+        </div>`;
+  }
+  
+  /**
+   * Render a note that the analysis came from the cache, with a button to analyze the file again
+   */
+  private _renderCachedNote(): string {
+    if (this._cachedAt === undefined) {
+      return '';
+    }
+    
+    return `<div class="context-bar">
+            Cached analysis from ${escapeHtml(new Date(this._cachedAt).toLocaleString())}
+            <button class="link-button" onclick="reanalyze()">Re-analyze</button>
+        </div>`;
+  }
+  
   /**
    * Determine the type of binary file based on extension
    */
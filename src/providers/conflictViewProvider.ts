@@ -0,0 +1,544 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitService } from '../services/gitService';
+import { AIService } from '../services/aiService';
+import {
+  ConflictAnalysis,
+  ConflictFile,
+  ConflictHunk,
+  ConflictResolution,
+  ResolutionStrategy
+} from '../models/gitTypes';
+import { isSameConflict, parseConflictHunks } from '../utils/conflictParser';
+import { escapeHtml } from '../utils/htmlUtils';
+
+/**
+ * Which lines replace a conflict hunk when it is accepted
+ */
+type HunkChoice = 'proposal' | 'ours' | 'theirs' | 'both';
+
+/**
+ * Editor panel showing the base, ours and theirs versions of each conflict
+ * hunk of an unmerged file, with AI-proposed resolutions to accept per hunk
+ */
+export class ConflictViewProvider {
+  public static readonly viewType = 'intellidiffConflict';
+  private _panel?: vscode.WebviewPanel;
+  private _filePath?: string;
+  private _conflict?: ConflictFile;
+  private _analysis?: ConflictAnalysis;
+  private _isLoading: boolean = false;
+
+  constructor(
+    private readonly _extensionUri: vscode.Uri,
+    private readonly _gitService: GitService,
+    private readonly _aiService: AIService
+  ) {}
+
+  /**
+   * Show the conflicts of an unmerged file, reusing the panel if it is open
+   */
+  public async show(filePath: string): Promise<void> {
+    if (!this._panel) {
+      this._panel = vscode.window.createWebviewPanel(
+        ConflictViewProvider.viewType,
+        'Conflicts',
+        vscode.ViewColumn.Active,
+        {
+          enableScripts: true,
+          localResourceRoots: [this._extensionUri]
+        }
+      );
+
+      this._panel.onDidDispose(() => {
+        this._panel = undefined;
+      });
+
+      this._panel.webview.onDidReceiveMessage(async (message) => {
+        switch (message.command) {
+          case 'accept':
+            await this._acceptHunk(message.hunkIndex, message.choice);
+            break;
+          case 'openFile':
+            await this._openFile(message.line);
+            break;
+          case 'markResolved':
+            if (this._filePath) {
+              await vscode.commands.executeCommand('intellidiff.markConflictResolved', this._filePath);
+            }
+            break;
+          case 'refresh':
+            if (this._filePath) {
+              await this.show(this._filePath);
+            }
+            break;
+        }
+      });
+    } else {
+      this._panel.reveal();
+    }
+
+    this._filePath = filePath;
+    this._panel.title = `Conflicts: ${path.basename(filePath)}`;
+    await this._load();
+  }
+
+  /**
+   * Close the panel if it shows the given file, e.g. once it is resolved
+   */
+  public close(filePath: string): void {
+    if (this._filePath === filePath) {
+      this._panel?.dispose();
+    }
+  }
+
+  /**
+   * Read the stages and conflict hunks of the current file and analyze them
+   */
+  private async _load(): Promise<void> {
+    if (!this._panel || !this._filePath) {
+      return;
+    }
+
+    this._isLoading = true;
+    this._panel.webview.html = this._getLoadingHtml(this._filePath);
+
+    try {
+      // Read the file through its document so unsaved edits are included
+      const document = await vscode.workspace.openTextDocument(this._gitService.resolvePath(this._filePath));
+      this._conflict = await this._gitService.getConflictFile(this._filePath, document.getText());
+      this._analysis = this._conflict.hunks.length > 0 ?
+        await this._aiService.analyzeConflict(this._conflict) :
+        undefined;
+
+      if (this._panel) {
+        this._panel.webview.html = this._getConflictHtml(this._conflict, this._analysis);
+      }
+    } catch (error) {
+      console.error('Error loading conflict:', error);
+
+      if (this._panel) {
+        this._panel.webview.html = this._getErrorHtml(`Failed to load conflict: ${error}`);
+      }
+    } finally {
+      this._isLoading = false;
+    }
+  }
+
+  /**
+   * Replace a conflict hunk, markers included, with the chosen lines.
+   * The edit goes through the file's document, so it can be undone in the editor.
+   */
+  private async _acceptHunk(hunkIndex: number, choice: HunkChoice): Promise<void> {
+    const hunk = this._conflict?.hunks[hunkIndex];
+    if (!hunk || !this._filePath || this._isLoading) {
+      return;
+    }
+
+    const lines = this._getChoiceLines(hunk, this._analysis?.resolutions[hunkIndex], choice);
+    if (!lines) {
+      return;
+    }
+
+    try {
+      const document = await vscode.workspace.openTextDocument(this._gitService.resolvePath(this._filePath));
+
+      // Earlier edits may have moved the hunk, so find it again by its content
+      const current = parseConflictHunks(document.getText()).find(h => isSameConflict(h, hunk));
+      if (!current) {
+        vscode.window.showWarningMessage('This conflict is no longer in the file');
+        await this._load();
+        return;
+      }
+
+      const lastLine = document.lineAt(current.endLine - 1);
+      const hasLineBreak = current.endLine < document.lineCount;
+      const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+      const range = new vscode.Range(
+        new vscode.Position(current.startLine - 1, 0),
+        hasLineBreak ? lastLine.rangeIncludingLineBreak.end : lastLine.range.end
+      );
+      const text = lines.map(line => line + eol).join('');
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, range, hasLineBreak ? text : text.slice(0, -eol.length));
+
+      if (!await vscode.workspace.applyEdit(edit)) {
+        throw new Error('The edit was rejected');
+      }
+      await document.save();
+
+      await this._load();
+    } catch (error) {
+      console.error('Error accepting conflict resolution:', error);
+      vscode.window.showErrorMessage(`Error resolving conflict: ${error}`);
+    }
+  }
+
+  /**
+   * Get the lines that replace a hunk for a choice; undefined if there are none to apply
+   */
+  private _getChoiceLines(
+    hunk: ConflictHunk,
+    resolution: ConflictResolution | undefined,
+    choice: HunkChoice
+  ): string[] | undefined {
+    switch (choice) {
+      case 'proposal':
+        return resolution?.lines;
+      case 'ours':
+        return hunk.ours;
+      case 'theirs':
+        return hunk.theirs;
+      case 'both':
+        return [...hunk.ours, ...hunk.theirs];
+    }
+  }
+
+  /**
+   * Open the conflicted file in the editor at a line
+   */
+  private async _openFile(line: number): Promise<void> {
+    if (!this._filePath) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(this._gitService.resolvePath(this._filePath));
+    const position = new vscode.Position(Math.max(0, line - 1), 0);
+    await vscode.window.showTextDocument(document, {
+      viewColumn: vscode.ViewColumn.Beside,
+      selection: new vscode.Range(position, position)
+    });
+  }
+
+  /**
+   * Get HTML for the loading state
+   */
+  private _getLoadingHtml(filePath: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>IntelliDiff Conflicts</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 20px;
+        }
+        .file-path {
+            font-weight: bold;
+            margin-bottom: 15px;
+            word-break: break-all;
+        }
+        .loading {
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <h3>Merge Conflicts</h3>
+    <div class="file-path">${escapeHtml(filePath)}</div>
+    <div class="loading">Analyzing conflicts...</div>
+</body>
+</html>`;
+  }
+
+  /**
+   * Get HTML for the conflict hunks of a file and their proposed resolutions
+   */
+  private _getConflictHtml(conflict: ConflictFile, analysis?: ConflictAnalysis): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>IntelliDiff Conflicts</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 0;
+            margin: 0;
+        }
+        .container {
+            padding: 15px;
+        }
+        .file-path {
+            font-weight: bold;
+            margin-bottom: 15px;
+            word-break: break-all;
+        }
+        .summary {
+            margin-bottom: 20px;
+            padding: 10px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            border-radius: 3px;
+        }
+        .hunk {
+            margin-bottom: 25px;
+            padding-bottom: 15px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .hunk-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            font-weight: bold;
+            margin-bottom: 8px;
+        }
+        .sides {
+            display: grid;
+            grid-template-columns: repeat(3, minmax(0, 1fr));
+            gap: 8px;
+        }
+        .side-title {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 4px;
+        }
+        .side-intent {
+            font-size: 12px;
+            font-style: italic;
+            margin-top: 4px;
+        }
+        pre {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 6px;
+            margin: 0;
+            overflow: auto;
+            min-height: 1.5em;
+        }
+        .ours pre {
+            border-left: 3px solid var(--vscode-merge-currentHeaderBackground, #40c8ae);
+        }
+        .theirs pre {
+            border-left: 3px solid var(--vscode-merge-incomingHeaderBackground, #40a6ff);
+        }
+        .base pre {
+            border-left: 3px solid var(--vscode-merge-commonHeaderBackground, #606060);
+        }
+        .proposal {
+            margin-top: 10px;
+        }
+        .proposal-title {
+            font-size: 12px;
+            font-weight: bold;
+            margin-bottom: 4px;
+        }
+        .explanation {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 4px;
+        }
+        .actions {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            margin-top: 8px;
+        }
+        .button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 4px 8px;
+            cursor: pointer;
+            font-size: 12px;
+            border-radius: 2px;
+        }
+        .button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+        .button-secondary {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .link-button {
+            background: none;
+            border: none;
+            padding: 0;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            font-size: 12px;
+            font-weight: normal;
+        }
+        .no-items {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+            margin-bottom: 10px;
+        }
+        details {
+            margin-top: 10px;
+        }
+        summary {
+            cursor: pointer;
+            margin-bottom: 8px;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h3>Merge Conflicts</h3>
+        <div class="file-path">${escapeHtml(conflict.path)}</div>
+
+        ${conflict.hunks.length > 0 ? `
+        ${analysis ? `<div class="summary">${escapeHtml(analysis.summary)}</div>` : ''}
+        ${conflict.hunks.map((hunk, i) => this._renderHunk(hunk, i, analysis?.resolutions[i])).join('')}
+        ` : `
+        <div class="no-items">No conflict markers are left in this file.</div>
+        <button class="button" onclick="markResolved()">Mark as Resolved</button>
+        `}
+
+        <details>
+            <summary>Full versions</summary>
+            <div class="sides">
+                ${this._renderSide('ours', 'Ours (stage 2)', conflict.ours)}
+                ${this._renderSide('base', 'Base (stage 1)', conflict.base)}
+                ${this._renderSide('theirs', 'Theirs (stage 3)', conflict.theirs)}
+            </div>
+        </details>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function accept(hunkIndex, choice) {
+            vscode.postMessage({
+                command: 'accept',
+                hunkIndex,
+                choice
+            });
+        }
+
+        function openFile(line) {
+            vscode.postMessage({
+                command: 'openFile',
+                line
+            });
+        }
+
+        function markResolved() {
+            vscode.postMessage({
+                command: 'markResolved'
+            });
+        }
+    </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Render one conflict hunk: the three sides next to each other,
+   * the proposed resolution and the buttons to accept a side
+   */
+  private _renderHunk(hunk: ConflictHunk, index: number, resolution?: ConflictResolution): string {
+    const oursTitle = `Ours${hunk.oursLabel ? ` (${escapeHtml(hunk.oursLabel)})` : ''}`;
+    const theirsTitle = `Theirs${hunk.theirsLabel ? ` (${escapeHtml(hunk.theirsLabel)})` : ''}`;
+
+    return `
+        <div class="hunk">
+            <div class="hunk-header">
+                <span>Conflict ${index + 1}</span>
+                <button class="link-button" onclick="openFile(${hunk.startLine})">Lines ${hunk.startLine}-${hunk.endLine}</button>
+            </div>
+            <div class="sides">
+                <div class="ours">
+                    <div class="side-title">${oursTitle}</div>
+                    <pre>${escapeHtml(hunk.ours.join('\n'))}</pre>
+                    ${resolution ? `<div class="side-intent">${escapeHtml(resolution.oursIntent)}</div>` : ''}
+                </div>
+                <div class="base">
+                    <div class="side-title">Base</div>
+                    <pre>${hunk.base ? escapeHtml(hunk.base.join('\n')) : '<span class="no-items">Not available</span>'}</pre>
+                </div>
+                <div class="theirs">
+                    <div class="side-title">${theirsTitle}</div>
+                    <pre>${escapeHtml(hunk.theirs.join('\n'))}</pre>
+                    ${resolution ? `<div class="side-intent">${escapeHtml(resolution.theirsIntent)}</div>` : ''}
+                </div>
+            </div>
+            ${resolution ? `
+            <div class="proposal">
+                <div class="proposal-title">Proposed resolution: ${resolution.strategy}</div>
+                <div class="explanation">${escapeHtml(resolution.explanation)}</div>
+                ${resolution.lines ? `<pre>${escapeHtml(resolution.lines.join('\n'))}</pre>` : ''}
+            </div>` : ''}
+            <div class="actions">
+                ${resolution?.lines && resolution.strategy !== ResolutionStrategy.MANUAL ?
+                  `<button class="button" onclick="accept(${index}, 'proposal')">Accept Proposal</button>` : ''}
+                <button class="button button-secondary" onclick="accept(${index}, 'ours')">Accept Ours</button>
+                <button class="button button-secondary" onclick="accept(${index}, 'theirs')">Accept Theirs</button>
+                <button class="button button-secondary" onclick="accept(${index}, 'both')">Accept Both</button>
+            </div>
+        </div>`;
+  }
+
+  /**
+   * Render one full version of the file
+   */
+  private _renderSide(side: 'ours' | 'base' | 'theirs', title: string, content?: string): string {
+    return `
+                <div class="${side}">
+                    <div class="side-title">${title}</div>
+                    <pre>${content !== undefined ? escapeHtml(content) : '<span class="no-items">Not in this stage</span>'}</pre>
+                </div>`;
+  }
+
+  /**
+   * Get HTML for error display
+   */
+  private _getErrorHtml(errorMessage: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>IntelliDiff Error</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 20px;
+        }
+        .error {
+            color: var(--vscode-errorForeground);
+            margin-bottom: 20px;
+        }
+        .button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 8px 12px;
+            cursor: pointer;
+            font-size: 14px;
+            border-radius: 2px;
+        }
+        .button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <h3>Error</h3>
+    <div class="error">${escapeHtml(errorMessage)}</div>
+    <button class="button" onclick="retry()">Try Again</button>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function retry() {
+            vscode.postMessage({
+                command: 'refresh'
+            });
+        }
+    </script>
+</body>
+</html>`;
+  }
+}
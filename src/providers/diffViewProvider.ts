@@ -1,6 +1,41 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { GitService } from '../services/gitService';
-import { DiffFile, GitReference, FileStatus } from '../models/gitTypes';
+import { FileCompareService } from '../services/fileCompareService';
+import {
+  ChangeType,
+  DiffFile,
+  FileDiff,
+  GitReference,
+  GitReferenceType,
+  FileStatus,
+  ComparisonOptions,
+  ComparisonMode,
+  DiffAlgorithm,
+  InlineDiffGranularity,
+  PathComparison
+} from '../models/gitTypes';
+import { RangeReview } from '../models/extensionState';
+import { getRefLabel } from '../utils/refUtils';
+import { escapeHtml } from '../utils/htmlUtils';
+
+/**
+ * Patch file shown in the view instead of a comparison
+ */
+interface LoadedPatch {
+  uri: vscode.Uri;
+  fileDiffs: FileDiff[];
+}
+
+/**
+ * Count the lines of a type in a file diff's chunks
+ */
+function countChanges(fileDiff: FileDiff, type: ChangeType): number {
+  return fileDiff.chunks.reduce(
+    (count, chunk) => count + chunk.changes.filter(change => change.type === type).length,
+    0
+  );
+}
 
 /**
  * WebView provider for the diff explorer view
@@ -11,22 +46,66 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
   private _files: DiffFile[] = [];
   private _baseRef?: GitReference;
   private _compareRef?: GitReference;
+  private _options: ComparisonOptions = {};
+  private _mergeBase?: string;
+  private _aheadBehind?: { ahead: number, behind: number };
+  // Parents of the compared commit when it is a merge
+  private _mergeParents?: string[];
+  private _review?: RangeReview;
+  private _repository?: string;
+  private _patch?: LoadedPatch;
+  // Files or folders compared on disk instead of git references
+  private _pathComparison?: PathComparison;
+  private _selectedFile?: string;
   
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    private readonly _gitService: GitService
+    private readonly _gitService: GitService,
+    private readonly _fileCompareService: FileCompareService
   ) {}
   
   /**
-   * Load the diff view with file comparison between two refs
+   * Load the diff view with file comparison between two refs.
+   * When a range review is given, the refs are the current commit and its
+   * parent and the view shows commit navigation.
    */
-  public async loadDiffView(baseRef: GitReference, compareRef: GitReference): Promise<void> {
+  public async loadDiffView(
+    baseRef: GitReference,
+    compareRef: GitReference,
+    options: ComparisonOptions = {},
+    review?: RangeReview
+  ): Promise<void> {
     this._baseRef = baseRef;
     this._compareRef = compareRef;
+    this._options = options;
+    this._review = review;
+    this._patch = undefined;
+    this._pathComparison = undefined;
+    this._mergeBase = undefined;
+    this._aheadBehind = undefined;
+    this._mergeParents = undefined;
+    this._repository = this._gitService.getActiveRepository();
     
     try {
+      // Resolve the merge base up front so the header can show it
+      if (options.mode === ComparisonMode.MERGE_BASE) {
+        this._mergeBase = await this._gitService.getMergeBase(baseRef, compareRef);
+      }
+      
+      // Between two revisions, show how many commits each side has that the other lacks
+      if (baseRef.type !== GitReferenceType.WORKING_TREE && baseRef.type !== GitReferenceType.STAGED &&
+          compareRef.type !== GitReferenceType.WORKING_TREE && compareRef.type !== GitReferenceType.STAGED) {
+        this._aheadBehind = await this._gitService.getAheadBehind(baseRef, compareRef).catch(() => undefined);
+      }
+      
+      // A merge commit can be shown against all its parents or a chosen one; stashes are merges too, but not reviewed as such
+      if (compareRef.type !== GitReferenceType.STASH) {
+        const parents = await this._gitService.getParents(compareRef).catch(() => []);
+        this._mergeParents = parents.length > 1 ? parents : undefined;
+      }
+      
       // Get the list of changed files
-      this._files = await this._gitService.compareRefs(baseRef, compareRef);
+      this._files = await this._gitService.compareRefs(baseRef, compareRef, options);
       
       // Update the view if it exists
       if (this._view) {
@@ -43,6 +122,118 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
     }
   }
   
+  /**
+   * Load the files of a patch into the view instead of a comparison between refs
+   */
+  public loadPatch(uri: vscode.Uri, fileDiffs: FileDiff[]): void {
+    this._patch = { uri, fileDiffs };
+    this._pathComparison = undefined;
+    this._baseRef = undefined;
+    this._compareRef = undefined;
+    this._review = undefined;
+    this._files = fileDiffs.map(fileDiff => ({
+      oldPath: fileDiff.oldPath,
+      newPath: fileDiff.newPath,
+      status: fileDiff.status,
+      additions: countChanges(fileDiff, ChangeType.ADD),
+      deletions: countChanges(fileDiff, ChangeType.DELETE),
+      isBinary: fileDiff.isBinary
+    }));
+    
+    if (this._view) {
+      this._view.webview.html = this._getHtmlForWebview();
+    }
+  }
+  
+  /**
+   * Load the files that differ between two files or two folders on disk
+   * into the view instead of a comparison between refs
+   */
+  public async loadPathComparison(comparison: PathComparison): Promise<void> {
+    this._pathComparison = comparison;
+    this._patch = undefined;
+    this._baseRef = undefined;
+    this._compareRef = undefined;
+    this._review = undefined;
+    this._mergeBase = undefined;
+    this._aheadBehind = undefined;
+    this._mergeParents = undefined;
+    
+    try {
+      this._files = await this._fileCompareService.compare(comparison);
+      
+      if (this._view) {
+        this._view.webview.html = this._getHtmlForWebview();
+      }
+    } catch (error) {
+      console.error('Error loading path comparison:', error);
+      vscode.window.showErrorMessage(`Error loading comparison: ${error}`);
+      
+      if (this._view) {
+        this._view.webview.html = this._getErrorHtml(`Failed to compare: ${error}`);
+      }
+    }
+  }
+  
+  /**
+   * Clear the view, e.g. when another repository without a comparison becomes active
+   */
+  public clear(): void {
+    this._files = [];
+    this._baseRef = undefined;
+    this._compareRef = undefined;
+    this._review = undefined;
+    this._repository = undefined;
+    this._patch = undefined;
+    this._pathComparison = undefined;
+    this._mergeBase = undefined;
+    this._aheadBehind = undefined;
+    this._mergeParents = undefined;
+    this._selectedFile = undefined;
+    
+    if (this._view) {
+      this._view.webview.html = this._getInitialHtml();
+    }
+  }
+  
+  /**
+   * Get the files or folders compared on disk, if such a comparison is shown
+   */
+  public getPathComparison(): PathComparison | undefined {
+    return this._pathComparison;
+  }
+  
+  /**
+   * Get the file of the loaded patch, if a patch is shown
+   */
+  public getPatchFile(filePath: string): { uri: vscode.Uri, fileDiff: FileDiff } | undefined {
+    const fileDiff = this._patch?.fileDiffs.find(f => f.newPath === filePath) ||
+      this._patch?.fileDiffs.find(f => f.oldPath === filePath);
+    return this._patch && fileDiff ? { uri: this._patch.uri, fileDiff } : undefined;
+  }
+  
+  /**
+   * Get the files of the loaded comparison or patch
+   */
+  public getFiles(): DiffFile[] {
+    return this._files;
+  }
+  
+  /**
+   * Check whether a file is part of the loaded comparison
+   */
+  public hasFile(filePath: string): boolean {
+    return this.getFile(filePath) !== undefined;
+  }
+  
+  /**
+   * Get a file of the loaded comparison by its new path, or its old path if it was deleted
+   */
+  public getFile(filePath: string): DiffFile | undefined {
+    return this._files.find(f => f.newPath === filePath) ||
+      this._files.find(f => f.oldPath === filePath);
+  }
+  
   /**
    * Resolve the webview view
    */
@@ -66,20 +257,95 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
     webviewView.webview.onDidReceiveMessage(async (message) => {
       switch (message.command) {
         case 'selectFile':
-          await vscode.commands.executeCommand('intellidiff.selectFile', message.filePath);
+          this._selectedFile = message.filePath;
+          await vscode.commands.executeCommand(this._getSelectCommand(), message.filePath);
+          break;
+        case 'openConflict':
+          this._selectedFile = message.filePath;
+          await vscode.commands.executeCommand('intellidiff.openConflict', message.filePath);
           break;
         case 'refresh':
-          if (this._baseRef && this._compareRef) {
-            await this.loadDiffView(this._baseRef, this._compareRef);
+          if (this._patch) {
+            await vscode.commands.executeCommand('intellidiff.openPatchFile', this._patch.uri);
+          } else if (this._pathComparison) {
+            await this.loadPathComparison(this._pathComparison);
+          } else if (this._baseRef && this._compareRef && this._restoreRepository()) {
+            await this.loadDiffView(this._baseRef, this._compareRef, this._options, this._review);
+          } else {
+            await vscode.commands.executeCommand('intellidiff.compareDiff');
           }
           break;
+        case 'toggleOption':
+          await vscode.commands.executeCommand('intellidiff.toggleComparisonOption', message.option);
+          break;
+        case 'setAlgorithm':
+          await vscode.commands.executeCommand('intellidiff.setDiffAlgorithm', message.algorithm);
+          break;
+        case 'setGranularity':
+          await vscode.commands.executeCommand('intellidiff.setInlineGranularity', message.granularity);
+          break;
+        case 'compareWithUpstream':
+          await vscode.commands.executeCommand('intellidiff.compareWithUpstream');
+          break;
+        case 'editPathFilter':
+          await vscode.commands.executeCommand('intellidiff.setPathFilter');
+          break;
+        case 'clearPathFilter':
+          await vscode.commands.executeCommand('intellidiff.clearPathFilter');
+          break;
+        case 'toggleDefaultExcludes':
+          await vscode.commands.executeCommand('intellidiff.setPathFilter', {
+            includePaths: this._options.includePaths,
+            excludePaths: this._options.excludePaths,
+            ignoreDefaultExcludes: !this._options.ignoreDefaultExcludes
+          });
+          break;
+        case 'fileHistory':
+          await vscode.commands.executeCommand('intellidiff.fileHistory', message.filePath);
+          break;
+        case 'previousCommit':
+          await vscode.commands.executeCommand('intellidiff.previousCommit');
+          break;
+        case 'nextCommit':
+          await vscode.commands.executeCommand('intellidiff.nextCommit');
+          break;
+        case 'chooseMergeParent':
+          await vscode.commands.executeCommand('intellidiff.chooseMergeParent');
+          break;
       }
     });
     
-    // Load content if we already have refs
-    if (this._baseRef && this._compareRef) {
-      this.loadDiffView(this._baseRef, this._compareRef);
+    // Load content if we already have refs, a patch or compared paths
+    if (this._patch) {
+      webviewView.webview.html = this._getHtmlForWebview();
+    } else if (this._pathComparison) {
+      this.loadPathComparison(this._pathComparison);
+    } else if (this._baseRef && this._compareRef && this._restoreRepository()) {
+      this.loadDiffView(this._baseRef, this._compareRef, this._options, this._review);
+    }
+  }
+  
+  /**
+   * Get the command that analyzes a file of what the view shows
+   */
+  private _getSelectCommand(): string {
+    if (this._patch) {
+      return 'intellidiff.selectPatchFile';
+    }
+    return this._pathComparison ? 'intellidiff.selectComparedFile' : 'intellidiff.selectFile';
+  }
+  
+  /**
+   * Make the repository of the shown comparison active again before reloading it.
+   * Returns false if that repository has left the workspace.
+   */
+  private _restoreRepository(): boolean {
+    if (!this._repository || !this._gitService.getRepositoryRoots().includes(this._repository)) {
+      return false;
     }
+    
+    this._gitService.setActiveRepository(this._repository);
+    return true;
   }
   
   /**
@@ -132,6 +398,7 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
             No files to compare. Please select Git versions to compare.
         </div>
         <button class="button" onclick="compareDiff()">Compare Git Versions</button>
+        <button class="button" onclick="compareWithUpstream()">Compare with Upstream</button>
     </div>
     <script>
         const vscode = acquireVsCodeApi();
@@ -141,6 +408,12 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
                 command: 'refresh'
             });
         }
+        
+        function compareWithUpstream() {
+            vscode.postMessage({
+                command: 'compareWithUpstream'
+            });
+        }
     </script>
 </body>
 </html>`;
@@ -150,14 +423,19 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
    * Get HTML for the diff view with file list
    */
   private _getHtmlForWebview(): string {
-    const baseRefName = this._baseRef?.name || 'Unknown';
-    const compareRefName = this._compareRef?.name || 'Unknown';
+    // Revision expressions and refs of other repositories may hold any character
+    const baseRefName = this._baseRef ? escapeHtml(getRefLabel(this._baseRef)) : 'Unknown';
+    const compareRefName = this._compareRef ? escapeHtml(getRefLabel(this._compareRef)) : 'Unknown';
+    const repositoryName = this._repository && this._gitService.getRepositoryRoots().length > 1 ?
+      path.basename(this._repository) : '';
     
     // Group files by status
+    const conflictedFiles = this._files.filter(f => f.status === FileStatus.CONFLICTED);
     const addedFiles = this._files.filter(f => f.status === FileStatus.ADDED);
     const modifiedFiles = this._files.filter(f => f.status === FileStatus.MODIFIED);
     const deletedFiles = this._files.filter(f => f.status === FileStatus.DELETED);
     const renamedFiles = this._files.filter(f => f.status === FileStatus.RENAMED);
+    const copiedFiles = this._files.filter(f => f.status === FileStatus.COPIED);
     
     return `<!DOCTYPE html>
 <html lang="en">
@@ -200,6 +478,10 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
         .file-item:hover {
             background-color: var(--vscode-list-hoverBackground);
         }
+        .file-item.selected {
+            background-color: var(--vscode-list-inactiveSelectionBackground);
+            color: var(--vscode-list-inactiveSelectionForeground);
+        }
         .file-icon {
             margin-right: 6px;
             height: 16px;
@@ -219,6 +501,13 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
             margin-left: 8px;
             color: var(--vscode-descriptionForeground);
         }
+        .file-action {
+            margin-left: 6px;
+            visibility: hidden;
+        }
+        .file-item:hover .file-action {
+            visibility: visible;
+        }
         .file-add {
             color: var(--vscode-gitDecoration-addedResourceForeground, #81c995);
         }
@@ -231,6 +520,17 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
         .file-ren {
             color: var(--vscode-gitDecoration-renamedResourceForeground, #73c991);
         }
+        .file-cpy {
+            color: var(--vscode-gitDecoration-addedResourceForeground, #81c995);
+        }
+        .file-cnf {
+            color: var(--vscode-gitDecoration-conflictingResourceForeground, #e4676b);
+        }
+        .file-similarity {
+            font-size: 11px;
+            margin-left: 8px;
+            color: var(--vscode-descriptionForeground);
+        }
         .file-bin {
             color: var(--vscode-descriptionForeground);
             font-style: italic;
@@ -247,6 +547,14 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
             font-size: 13px;
             color: var(--vscode-descriptionForeground);
         }
+        .repository {
+            font-size: 11px;
+            margin-bottom: 2px;
+        }
+        .merge-base {
+            font-size: 11px;
+            margin-top: 2px;
+        }
         .button {
             background: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
@@ -259,6 +567,83 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
         .button:hover {
             background: var(--vscode-button-hoverBackground);
         }
+        .button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .options {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 10px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .options label {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            cursor: pointer;
+        }
+        .options select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        .path-filter {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 10px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .path-filter code {
+            font-family: var(--vscode-editor-font-family);
+            color: var(--vscode-foreground);
+        }
+        .path-filter-active {
+            color: var(--vscode-foreground);
+        }
+        .link-button {
+            background: none;
+            border: none;
+            padding: 0;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .link-button:hover {
+            color: var(--vscode-textLink-activeForeground);
+        }
+        .review {
+            margin-bottom: 10px;
+            padding-bottom: 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .review-nav {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 6px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .file-evil {
+            font-size: 11px;
+            margin-left: 8px;
+            color: var(--vscode-editorWarning-foreground, #cca700);
+        }
+        .commit-message {
+            font-weight: bold;
+            margin-bottom: 2px;
+        }
+        .commit-meta {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
         .no-files {
             color: var(--vscode-descriptionForeground);
             font-style: italic;
@@ -268,15 +653,43 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
 </head>
 <body>
     <div class="container">
+        ${this._patch ? `
+        <div class="header">
+            <div class="refs" title="${escapeHtml(this._patch.uri.fsPath)}">
+                Patch <strong>${escapeHtml(path.basename(this._patch.uri.fsPath))}</strong>
+            </div>
+            <button class="button" onclick="compareDiff()">Reload</button>
+        </div>` : this._pathComparison ? `
         <div class="header">
             <div class="refs">
+                ${this._pathComparison.isFolder ? 'Folders' : 'Files'}
+                <div title="${escapeHtml(this._pathComparison.comparePath)}"><strong>${escapeHtml(path.basename(this._pathComparison.comparePath))}</strong> ←</div>
+                <div title="${escapeHtml(this._pathComparison.basePath)}"><strong>${escapeHtml(path.basename(this._pathComparison.basePath))}</strong></div>
+            </div>
+            <button class="button" onclick="compareDiff()">Reload</button>
+        </div>` : `
+        <div class="header">
+            <div class="refs">
+                ${repositoryName ? `<div class="repository" title="${escapeHtml(this._repository!)}">${escapeHtml(repositoryName)}</div>` : ''}
                 <strong>${compareRefName}</strong> ← <strong>${baseRefName}</strong>
+                ${this._mergeBase ? `<div class="merge-base" title="${this._mergeBase}">merge base ${this._mergeBase.substring(0, 7)}</div>` : ''}
+                ${this._aheadBehind ? `<div class="merge-base" title="${compareRefName} is ${this._aheadBehind.ahead} commits ahead of and ${this._aheadBehind.behind} commits behind ${baseRefName}">↑${this._aheadBehind.ahead} ↓${this._aheadBehind.behind}</div>` : ''}
+                ${this._renderMergeParents()}
             </div>
             <button class="button" onclick="compareDiff()">Change</button>
         </div>
+        ${this._renderOptions()}
+        ${this._renderPathFilter()}
+        ${this._renderReviewHeader()}`}
         
         <div class="file-list">
-            ${this._files.length === 0 ? '<div class="no-files">No changes found between these references</div>' : ''}
+            ${this._files.length === 0 ? `<div class="no-files">${this._getNoFilesMessage()}</div>` : ''}
+            
+            ${conflictedFiles.length > 0 ? `
+            <div class="file-group">
+                <div class="file-group-header">Conflicts (${conflictedFiles.length})</div>
+                ${conflictedFiles.map(file => this._renderFileItem(file, 'cnf')).join('')}
+            </div>` : ''}
             
             ${addedFiles.length > 0 ? `
             <div class="file-group">
@@ -301,32 +714,267 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
                 <div class="file-group-header">Renamed (${renamedFiles.length})</div>
                 ${renamedFiles.map(file => this._renderFileItem(file, 'ren')).join('')}
             </div>` : ''}
+            
+            ${copiedFiles.length > 0 ? `
+            <div class="file-group">
+                <div class="file-group-header">Copied (${copiedFiles.length})</div>
+                ${copiedFiles.map(file => this._renderFileItem(file, 'cpy')).join('')}
+            </div>` : ''}
         </div>
     </div>
     <script>
         const vscode = acquireVsCodeApi();
         
+        // Keep the scroll position when the same comparison is shown again, e.g. after a refresh
+        const viewKey = ${this._getViewKey()};
+        const state = vscode.getState();
+        if (state && state.viewKey === viewKey) {
+            window.scrollTo(0, state.scrollY);
+        }
+        window.addEventListener('scroll', () => {
+            vscode.setState({ viewKey, scrollY: window.scrollY });
+        });
+        
+        function markSelected(filePath) {
+            document.querySelectorAll('.file-item').forEach(item => {
+                item.classList.toggle('selected', item.dataset.path === filePath);
+            });
+        }
+        
         function selectFile(filePath) {
+            markSelected(filePath);
             vscode.postMessage({
                 command: 'selectFile',
                 filePath: filePath
             });
         }
         
+        function openConflict(filePath) {
+            markSelected(filePath);
+            vscode.postMessage({
+                command: 'openConflict',
+                filePath: filePath
+            });
+        }
+        
         function compareDiff() {
             vscode.postMessage({
                 command: 'refresh'
             });
         }
+        
+        function toggleOption(option) {
+            vscode.postMessage({
+                command: 'toggleOption',
+                option: option
+            });
+        }
+        
+        function setAlgorithm(algorithm) {
+            vscode.postMessage({
+                command: 'setAlgorithm',
+                algorithm: algorithm
+            });
+        }
+        
+        function setGranularity(granularity) {
+            vscode.postMessage({
+                command: 'setGranularity',
+                granularity: granularity
+            });
+        }
+        
+        function editPathFilter() {
+            vscode.postMessage({
+                command: 'editPathFilter'
+            });
+        }
+        
+        function clearPathFilter() {
+            vscode.postMessage({
+                command: 'clearPathFilter'
+            });
+        }
+        
+        function toggleDefaultExcludes() {
+            vscode.postMessage({
+                command: 'toggleDefaultExcludes'
+            });
+        }
+        
+        function fileHistory(event, filePath) {
+            event.stopPropagation();
+            vscode.postMessage({
+                command: 'fileHistory',
+                filePath: filePath
+            });
+        }
+        
+        function previousCommit() {
+            vscode.postMessage({
+                command: 'previousCommit'
+            });
+        }
+        
+        function nextCommit() {
+            vscode.postMessage({
+                command: 'nextCommit'
+            });
+        }
+        
+        function chooseMergeParent() {
+            vscode.postMessage({
+                command: 'chooseMergeParent'
+            });
+        }
     </script>
 </body>
 </html>`;
   }
   
+  /**
+   * Get the message shown when nothing differs
+   */
+  private _getNoFilesMessage(): string {
+    if (this._patch) {
+      return 'The patch has no file changes';
+    }
+    if (this._pathComparison) {
+      return this._pathComparison.isFolder ? 'The folders have the same files and contents' : 'The files are identical';
+    }
+    return 'No changes found between these references';
+  }
+  
+  /**
+   * Get a key for what the view shows, as a script literal. Reloading the same
+   * comparison or patch gives the same key, so the view can keep its scroll position.
+   */
+  private _getViewKey(): string {
+    let key: unknown = [this._repository, this._baseRef, this._compareRef, this._options.mode, this._review?.index];
+    if (this._patch) {
+      key = this._patch.uri.toString();
+    } else if (this._pathComparison) {
+      key = this._pathComparison;
+    }
+    
+    // Escape "<" so the literal cannot close the script element
+    return JSON.stringify(JSON.stringify(key)).replace(/</g, '\\u003c');
+  }
+  
+  /**
+   * Render the whitespace toggles, diff algorithm and inline granularity of the comparison
+   */
+  private _renderOptions(): string {
+    const toggles: { option: keyof ComparisonOptions, label: string, title: string }[] = [
+      { option: 'ignoreAllWhitespace', label: 'Whitespace', title: 'Ignore all whitespace' },
+      { option: 'ignoreWhitespaceAmount', label: 'Indent', title: 'Ignore changes in the amount of whitespace' },
+      { option: 'ignoreBlankLines', label: 'Blank lines', title: 'Ignore added or removed blank lines' },
+      { option: 'ignoreLineEndings', label: 'Line endings', title: 'Ignore CRLF vs LF differences' },
+      { option: 'ignoreWhitespaceInMoves', label: 'Indent in moves', title: 'Ignore whitespace when detecting moved code' }
+    ];
+    
+    return `
+        <div class="options">
+            <span class="options-label">Ignore:</span>
+            ${toggles.map(toggle => `
+            <label title="${toggle.title}">
+                <input type="checkbox" ${this._options[toggle.option] ? 'checked' : ''} onchange="toggleOption('${toggle.option}')">${toggle.label}
+            </label>`).join('')}
+        </div>
+        <div class="options">
+            <label title="Line diff algorithm">
+                Algorithm:
+                <select onchange="setAlgorithm(this.value)">
+                    ${Object.values(DiffAlgorithm).map(algorithm => `
+                    <option value="${algorithm}" ${(this._options.algorithm || DiffAlgorithm.MYERS) === algorithm ? 'selected' : ''}>${algorithm}</option>`).join('')}
+                </select>
+            </label>
+            <label title="Highlight changes inside modified lines by word or by character">
+                Inline:
+                <select onchange="setGranularity(this.value)">
+                    ${Object.values(InlineDiffGranularity).map(granularity => `
+                    <option value="${granularity}" ${(this._options.inlineGranularity || InlineDiffGranularity.WORD) === granularity ? 'selected' : ''}>${granularity}</option>`).join('')}
+                </select>
+            </label>
+        </div>`;
+  }
+  
+  /**
+   * Render the path filter of the comparison, with buttons to edit and clear it.
+   * The workspace's default excludes can be switched off for the comparison.
+   */
+  private _renderPathFilter(): string {
+    const includePaths = this._options.includePaths || [];
+    const excludePaths = this._options.excludePaths || [];
+    const defaultExcludes = vscode.workspace.getConfiguration('intellidiff').get<string[]>('excludePaths', []);
+    const useDefaultExcludes = defaultExcludes.length > 0 && !this._options.ignoreDefaultExcludes;
+    const isFiltered = includePaths.length > 0 || excludePaths.length > 0 || useDefaultExcludes;
+    
+    const renderPatterns = (patterns: string[]) =>
+      patterns.map(pattern => `<code>${escapeHtml(pattern)}</code>`).join(', ');
+    
+    return `
+        <div class="path-filter">
+            <span class="${isFiltered ? 'path-filter-active' : ''}">Paths:</span>
+            ${includePaths.length > 0 ? `<span>only ${renderPatterns(includePaths)}</span>` : '<span>all files</span>'}
+            ${excludePaths.length > 0 ? `<span>except ${renderPatterns(excludePaths)}</span>` : ''}
+            ${defaultExcludes.length > 0 ? `
+            <label title="${escapeHtml(defaultExcludes.join(', '))}">
+                <input type="checkbox" ${useDefaultExcludes ? 'checked' : ''} onchange="toggleDefaultExcludes()">Workspace excludes (${defaultExcludes.length})
+            </label>` : ''}
+            <button class="link-button" onclick="editPathFilter()">Filter…</button>
+            ${isFiltered ? '<button class="link-button" onclick="clearPathFilter()">Clear</button>' : ''}
+        </div>`;
+  }
+  
+  /**
+   * Render whether a merge commit is compared with all its parents or one of them,
+   * with a link to choose
+   */
+  private _renderMergeParents(): string {
+    if (!this._mergeParents) {
+      return '';
+    }
+    
+    const parentCount = this._mergeParents.length;
+    const parentIndex = this._mergeParents.indexOf(this._baseRef?.id || '');
+    let label = `merge with ${parentCount} parents`;
+    if (this._options.mode === ComparisonMode.COMBINED) {
+      label = `combined diff against ${parentCount} parents`;
+    } else if (parentIndex >= 0) {
+      label = `against parent ${parentIndex + 1} of ${parentCount}`;
+    }
+    
+    return `<div class="merge-base">${label} <button class="link-button" onclick="chooseMergeParent()">Parent…</button></div>`;
+  }
+  
+  /**
+   * Render the current commit and navigation of a range review
+   */
+  private _renderReviewHeader(): string {
+    if (!this._review) {
+      return '';
+    }
+    
+    const { commits, index } = this._review;
+    const commit = commits[index];
+    
+    return `
+        <div class="review">
+            <div class="review-nav">
+                <button class="button" onclick="previousCommit()" ${index === 0 ? 'disabled' : ''}>‹ Previous</button>
+                <span>Commit ${index + 1} of ${commits.length}</span>
+                <button class="button" onclick="nextCommit()" ${index === commits.length - 1 ? 'disabled' : ''}>Next ›</button>
+            </div>
+            <div class="commit-message">${escapeHtml(commit.message)}</div>
+            <div class="commit-meta">${commit.shortHash} · ${escapeHtml(commit.author)} · ${commit.date.toLocaleString()}</div>
+        </div>`;
+  }
+  
   /**
    * Render a single file item in the list
    */
-  private _renderFileItem(file: DiffFile, fileType: 'add' | 'mod' | 'del' | 'ren'): string {
+  private _renderFileItem(file: DiffFile, fileType: 'add' | 'mod' | 'del' | 'ren' | 'cpy' | 'cnf'): string {
     const filePath = file.status === FileStatus.DELETED ? file.oldPath : file.newPath;
     
     let iconChar = '';
@@ -335,6 +983,8 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
       case 'mod': iconChar = '●'; break;
       case 'del': iconChar = '–'; break;
       case 'ren': iconChar = '→'; break;
+      case 'cpy': iconChar = '⇉'; break;
+      case 'cnf': iconChar = '!'; break;
     }
     
     const statistics = file.status === FileStatus.DELETED ? '' : 
@@ -343,16 +993,29 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
     const binaryClass = file.isBinary ? ' file-bin' : '';
     const binaryLabel = file.isBinary ? ' (binary)' : '';
     
-    // For renamed files, show old → new
-    const fileName = file.status === FileStatus.RENAMED ? 
-      `${file.oldPath} → ${file.newPath}` : 
-      filePath;
+    // For renamed and copied files, show old → new and how similar they are
+    const isPathPair = file.status === FileStatus.RENAMED || file.status === FileStatus.COPIED;
+    const fileName = escapeHtml(isPathPair ? `${file.oldPath} → ${file.newPath}` : filePath);
+    const similarity = isPathPair && file.similarity !== undefined ?
+      `<span class="file-similarity" title="Similarity">${file.similarity}%</span>` : '';
+    
+    // Lines of a merge that come from no parent deserve a closer look
+    const evilMerge = file.evilMergeLines ?
+      `<span class="file-evil" title="${file.evilMergeLines} lines come from no parent">⚠ ${file.evilMergeLines}</span>` : '';
+    
+    // Conflicted files open in the conflict viewer instead of the analysis view.
+    // Handlers read the path from data-path, as paths may hold any character.
+    const onClick = file.status === FileStatus.CONFLICTED ? 'openConflict' : 'selectFile';
+    const selectedClass = filePath === this._selectedFile ? ' selected' : '';
     
     return `
-    <div class="file-item" onclick="selectFile('${filePath.replace(/'/g, "\\'")}')">
+    <div class="file-item${selectedClass}" data-path="${escapeHtml(filePath)}" onclick="${onClick}(this.dataset.path)">
         <div class="file-icon file-${fileType}">${iconChar}</div>
         <div class="file-name${binaryClass}">${fileName}${binaryLabel}</div>
+        ${similarity}
+        ${evilMerge}
         ${statistics}
+        ${this._pathComparison ? '' : `<div class="file-action" title="File History" onclick="fileHistory(event, this.parentElement.dataset.path)">⏱</div>`}
     </div>`;
   }
   
@@ -408,4 +1071,4 @@ export class DiffViewProvider implements vscode.WebviewViewProvider {
 </body>
 </html>`;
   }
-}
\ No newline at end of file
+}
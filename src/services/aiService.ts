@@ -1,8 +1,21 @@
 import axios from 'axios';
 import * as vscode from 'vscode';
-import { FileDiff, DiffAnalysis, ChangeAnalysis } from '../models/gitTypes';
+import {
+  FileDiff,
+  DiffAnalysis,
+  ChangeAnalysis,
+  ChangeType,
+  MoveDirection,
+  ConflictFile,
+  ConflictAnalysis,
+  ConflictResolution,
+  ResolutionStrategy
+} from '../models/gitTypes';
 import { PythonService } from './pythonService';
 
+// Version of the analysis; bump it when the analyzer's results change so cached ones are not reused
+export const ANALYZER_VERSION = 2;
+
 export class AIService {
   private pythonService: PythonService;
   private isServerReady: boolean = false;
@@ -112,6 +125,76 @@ export class AIService {
     }
   }
 
+  /**
+   * Explain both sides of each conflict hunk of a file and propose resolutions
+   */
+  public async analyzeConflict(conflict: ConflictFile): Promise<ConflictAnalysis> {
+    if (!this.isServerReady) {
+      try {
+        await this.initPythonServer();
+      } catch (error) {
+        throw new Error('AI analysis server is not available');
+      }
+    }
+
+    try {
+      const conflictData = {
+        filePath: conflict.path,
+        hunks: conflict.hunks
+      };
+
+      const response = await axios.post('http://localhost:5000/resolve-conflict', conflictData, {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        timeout: 30000 // 30 second timeout
+      });
+
+      if (response.status !== 200) {
+        throw new Error(`Conflict analysis failed with status: ${response.status}`);
+      }
+
+      return response.data;
+    } catch (error) {
+      console.error('Error during conflict analysis:', error);
+
+      // Return a basic analysis if the AI service fails
+      return this.fallbackConflictAnalysis(conflict);
+    }
+  }
+
+  /**
+   * Provide a basic conflict analysis in case the AI service fails.
+   * Only hunks where one side left the base unchanged get a proposal.
+   */
+  private fallbackConflictAnalysis(conflict: ConflictFile): ConflictAnalysis {
+    const resolutions: ConflictResolution[] = conflict.hunks.map((hunk, hunkIndex) => {
+      const base = hunk.base?.join('\n');
+      const resolution = {
+        hunkIndex,
+        oursIntent: `Has ${hunk.ours.length} line(s) here.`,
+        theirsIntent: `Has ${hunk.theirs.length} line(s) here.`
+      };
+
+      if (base === hunk.ours.join('\n')) {
+        return { ...resolution, strategy: ResolutionStrategy.THEIRS, lines: hunk.theirs,
+          explanation: 'Only the incoming side changed these lines.' };
+      }
+      if (base === hunk.theirs.join('\n')) {
+        return { ...resolution, strategy: ResolutionStrategy.OURS, lines: hunk.ours,
+          explanation: 'Only the current side changed these lines.' };
+      }
+      return { ...resolution, strategy: ResolutionStrategy.MANUAL,
+        explanation: 'Both sides changed these lines; combine them by hand.' };
+    });
+
+    return {
+      filePath: conflict.path,
+      summary: `This file has ${conflict.hunks.length} conflict(s).`,
+      resolutions
+    };
+  }
+
   /**
    * Provide a basic analysis in case the AI service fails
    */
@@ -120,10 +203,22 @@ export class AIService {
     
     // Create simple change analysis for each chunk
     fileDiff.chunks.forEach((chunk, index) => {
+      const moves = (chunk.moves || []).map(move => move.direction === MoveDirection.IN ?
+        `Moved ${move.lineCount} lines here from ${move.linkedPath} line ${move.linkedStartLine}.` :
+        `Moved ${move.lineCount} lines from here to ${move.linkedPath} line ${move.linkedStartLine}.`);
+      
+      // Added lines give exact positions; a chunk that only deletes points at where its lines were
+      const addedLines = chunk.changes
+        .filter(change => change.type !== ChangeType.NORMAL && change.newLineNumber !== undefined)
+        .map(change => change.newLineNumber!);
+      const startLine = addedLines.length > 0 ? addedLines[0] : Math.max(chunk.newStart, 1);
+      
       changes.push({
-        startLine: chunk.newStart,
-        endLine: chunk.newStart + chunk.newLines - 1,
-        description: `Code block ${index + 1} was modified with ${chunk.changes.length} line changes.`
+        startLine,
+        endLine: addedLines.length > 0 ? addedLines[addedLines.length - 1] : startLine,
+        description: moves.length > 0 ?
+          moves.join(' ') :
+          `Code block ${index + 1} was modified with ${chunk.changes.length} line changes.`
       });
     });
     
@@ -132,7 +227,8 @@ export class AIService {
       summary: `This file has ${fileDiff.chunks.length} changed sections.`,
       changes,
       potentialIssues: [],
-      suggestions: []
+      suggestions: [],
+      isFallback: true
     };
   }
 
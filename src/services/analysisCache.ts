@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { CachedAnalysis, ComparisonOptions, DiffAnalysis, FileDiff } from '../models/gitTypes';
+import { ANALYZER_VERSION } from './aiService';
+
+// Analyses kept at most, whatever their size
+const MAX_ENTRIES = 2000;
+
+/**
+ * Analyses of file diffs stored in the extension's global storage, one file
+ * per analysis, so files are not analyzed again after a reload or in another
+ * workspace. Entries are keyed by the blobs of both sides, the analyzer
+ * version and the options that shape the diff; the least recently used are
+ * evicted once the intellidiff.analysisCacheSize limit is reached.
+ */
+export class AnalysisCache {
+  private readonly directory: string;
+
+  constructor(storageUri: vscode.Uri) {
+    this.directory = path.join(storageUri.fsPath, 'analysis-cache');
+  }
+
+  /**
+   * Get the cache key of a file diff, or undefined if it cannot be cached,
+   * e.g. a diff read from a patch file, whose contents are not known
+   */
+  public getKey(fileDiff: FileDiff, options: ComparisonOptions): string | undefined {
+    if (!fileDiff.oldBlobId && !fileDiff.newBlobId) {
+      return undefined;
+    }
+
+    const key = {
+      analyzerVersion: ANALYZER_VERSION,
+      oldPath: fileDiff.oldPath,
+      newPath: fileDiff.newPath,
+      oldBlobId: fileDiff.oldBlobId,
+      newBlobId: fileDiff.newBlobId,
+      // A combined diff of a merge also depends on the file in the other parents
+      parentBlobIds: fileDiff.parentBlobIds,
+      contextLines: fileDiff.contextLines,
+      ignoreAllWhitespace: !!options.ignoreAllWhitespace,
+      ignoreWhitespaceAmount: !!options.ignoreWhitespaceAmount,
+      ignoreBlankLines: !!options.ignoreBlankLines,
+      ignoreLineEndings: !!options.ignoreLineEndings,
+      algorithm: options.algorithm,
+      inlineGranularity: options.inlineGranularity,
+      // Moves link to other files of the comparison, which the blobs do not cover
+      moves: fileDiff.chunks.map(chunk => chunk.moves || [])
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(key)).digest('hex');
+  }
+
+  /**
+   * Get a stored analysis, marking it as recently used
+   */
+  public async get(key: string): Promise<CachedAnalysis | undefined> {
+    if (this.getMaxSize() === 0) {
+      return undefined;
+    }
+
+    const filePath = this.getEntryPath(key);
+    try {
+      const entry: CachedAnalysis = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+
+      const now = new Date();
+      await fs.utimes(filePath, now, now);
+
+      return entry;
+    } catch (error) {
+      // Missing or unreadable entries are analyzed again
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an analysis, evicting the least recently used ones if the cache is full
+   */
+  public async set(key: string, analysis: DiffAnalysis): Promise<void> {
+    if (this.getMaxSize() === 0) {
+      return;
+    }
+
+    const entry: CachedAnalysis = { analysis, analyzedAt: Date.now() };
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.getEntryPath(key), JSON.stringify(entry));
+      await this.evict();
+    } catch (error) {
+      console.error('Failed to store analysis:', error);
+      throw new Error('Failed to store analysis');
+    }
+  }
+
+  /**
+   * Remove every stored analysis
+   */
+  public async clear(): Promise<void> {
+    try {
+      await fs.rm(this.directory, { recursive: true, force: true });
+    } catch (error) {
+      console.error('Failed to clear analysis cache:', error);
+      throw new Error('Failed to clear analysis cache');
+    }
+  }
+
+  /**
+   * Remove the least recently used analyses until the cache fits its limits
+   */
+  private async evict(): Promise<void> {
+    const maxSize = this.getMaxSize();
+    const names = await fs.readdir(this.directory);
+
+    const entries = await Promise.all(names.map(async name => {
+      const filePath = path.join(this.directory, name);
+      const stats = await fs.stat(filePath).catch(() => undefined);
+      return { filePath, size: stats?.size || 0, usedAt: stats?.mtimeMs || 0 };
+    }));
+
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+
+    entries.sort((a, b) => a.usedAt - b.usedAt);
+    for (const entry of entries) {
+      if (totalSize <= maxSize && count <= MAX_ENTRIES) {
+        break;
+      }
+
+      await fs.rm(entry.filePath, { force: true });
+      totalSize -= entry.size;
+      count--;
+    }
+  }
+
+  private getMaxSize(): number {
+    return Math.max(0, vscode.workspace.getConfiguration('intellidiff').get<number>('analysisCacheSize', 20 * 1024 * 1024));
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
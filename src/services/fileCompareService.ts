@@ -0,0 +1,271 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { createTwoFilesPatch, diffLines } from 'diff';
+import {
+  ChangeType,
+  DiffFile,
+  FileDiff,
+  FileDiffLoadOptions,
+  FileStatus,
+  PathComparison
+} from '../models/gitTypes';
+import { parseGitDiff } from '../utils/diffParser';
+import { addInlineSegments } from '../utils/inlineDiff';
+import { detectMovedCode } from '../utils/moveDetector';
+import { hashBlob } from './gitService';
+
+// Directories never descended into when comparing folders
+const IGNORED_DIRECTORIES = new Set(['.git']);
+
+// Bytes searched for a NUL byte to tell binary files apart, as git does
+const BINARY_CHECK_LENGTH = 8000;
+
+/**
+ * A file of a path comparison, by its path on each side
+ */
+interface ComparedPair {
+  oldPath: string;
+  newPath: string;
+}
+
+/**
+ * Diff backend for files and folders that are not related through git
+ * history, e.g. a vendored copy or a downloaded release. It gives the same
+ * DiffFile and FileDiff structures as comparisons of git references, with
+ * the lines diffed in process instead of by git.
+ */
+export class FileCompareService {
+  /**
+   * Get the files that differ between two files or two folders. Paths of
+   * folder comparisons are relative to the folders, with forward slashes;
+   * two compared files keep their own names.
+   */
+  public async compare(comparison: PathComparison): Promise<DiffFile[]> {
+    try {
+      const pairs = comparison.isFolder ?
+        await this.getFolderPairs(comparison) :
+        [{ oldPath: path.basename(comparison.basePath), newPath: path.basename(comparison.comparePath) }];
+
+      // One file at a time, so large folders are not read into memory at once
+      const files: DiffFile[] = [];
+      for (const pair of pairs) {
+        const file = await this.compareFile(comparison, pair);
+        if (file) {
+          files.push(file);
+        }
+      }
+
+      return files;
+    } catch (error) {
+      console.error(`Failed to compare ${comparison.basePath} with ${comparison.comparePath}:`, error);
+      throw new Error(`Failed to compare ${comparison.basePath} with ${comparison.comparePath}`);
+    }
+  }
+
+  /**
+   * Get the detailed diff of a file of a path comparison.
+   * Pass the old path when it differs, i.e. for two compared files with different names.
+   * Files over the size limits come back truncated, like those of git comparisons.
+   */
+  public async getFileDiff(
+    comparison: PathComparison,
+    filePath: string,
+    oldFilePath: string = filePath,
+    loadOptions: FileDiffLoadOptions = {}
+  ): Promise<FileDiff> {
+    const config = vscode.workspace.getConfiguration('intellidiff');
+
+    try {
+      const [oldBlob, newBlob] = await Promise.all([
+        readFileIfExists(this.resolvePath(comparison, oldFilePath, 'base')),
+        readFileIfExists(this.resolvePath(comparison, filePath, 'compare'))
+      ]);
+
+      if (!oldBlob && !newBlob) {
+        throw new Error(`No diff found for file: ${filePath}`);
+      }
+
+      const fileDiff: FileDiff = {
+        oldPath: oldFilePath,
+        newPath: filePath,
+        status: getStatus(oldBlob, newBlob),
+        isBinary: isBinary(oldBlob) || isBinary(newBlob),
+        chunks: [],
+        oldBlobId: oldBlob && hashBlob(oldBlob),
+        newBlobId: newBlob && hashBlob(newBlob)
+      };
+
+      if (fileDiff.isBinary) {
+        return fileDiff;
+      }
+
+      const maxFileSize = config.get<number>('maxFileSize', 1024 * 1024);
+      if (!loadOptions.ignoreSizeLimits &&
+          Math.max(oldBlob?.length || 0, newBlob?.length || 0) > maxFileSize) {
+        return { ...fileDiff, truncated: true };
+      }
+
+      const oldContent = oldBlob?.toString('utf-8');
+      const newContent = newBlob?.toString('utf-8');
+
+      // Context as long as the longer version covers the whole file
+      const fileLength = Math.max(countLines(oldContent), countLines(newContent));
+      const contextLines = loadOptions.fullContext
+        ? fileLength
+        : Math.max(0, loadOptions.contextLines ?? config.get<number>('diffContextLines', 3));
+
+      // Only the chunks of the patch are used, so the names in its headers do not matter
+      const patch = createTwoFilesPatch('a', 'b', oldContent ?? '', newContent ?? '', undefined, undefined, {
+        context: contextLines
+      });
+      const [parsedFile] = parseGitDiff(patch);
+      fileDiff.chunks = parsedFile ? parsedFile.chunks : [];
+
+      fileDiff.additions = countChanges(fileDiff, ChangeType.ADD);
+      fileDiff.deletions = countChanges(fileDiff, ChangeType.DELETE);
+
+      const maxChangedLines = config.get<number>('maxChangedLines', 5000);
+      if (!loadOptions.ignoreSizeLimits && fileDiff.additions + fileDiff.deletions > maxChangedLines) {
+        return { ...fileDiff, chunks: [], truncated: true };
+      }
+
+      // Moves are only looked for within the file, as other files are not diffed
+      if (config.get<boolean>('detectMovedCode', true)) {
+        detectMovedCode(fileDiff, [], {
+          minLines: config.get<number>('movedCodeMinLines', 3),
+          ignoreWhitespace: false
+        });
+      }
+
+      addInlineSegments(fileDiff.chunks);
+
+      return {
+        ...fileDiff,
+        oldContent,
+        newContent,
+        contextLines,
+        fullContext: contextLines >= fileLength
+      };
+    } catch (error) {
+      console.error(`Failed to get diff for file ${filePath}:`, error);
+      throw new Error(`Failed to get diff for file: ${filePath}`);
+    }
+  }
+
+  /**
+   * Get the absolute path of a file of a path comparison on one side
+   */
+  public resolvePath(comparison: PathComparison, filePath: string, side: 'base' | 'compare'): string {
+    const root = side === 'base' ? comparison.basePath : comparison.comparePath;
+    return comparison.isFolder ? path.join(root, ...filePath.split('/')) : root;
+  }
+
+  /**
+   * Pair up the files of both folders by their relative paths, sorted
+   */
+  private async getFolderPairs(comparison: PathComparison): Promise<ComparedPair[]> {
+    const [basePaths, comparePaths] = await Promise.all([
+      listFiles(comparison.basePath),
+      listFiles(comparison.comparePath)
+    ]);
+
+    return Array.from(new Set([...basePaths, ...comparePaths]))
+      .sort()
+      .map(filePath => ({ oldPath: filePath, newPath: filePath }));
+  }
+
+  /**
+   * Compare one file on both sides, or return undefined if it is the same on both
+   */
+  private async compareFile(comparison: PathComparison, pair: ComparedPair): Promise<DiffFile | undefined> {
+    const [oldBlob, newBlob] = await Promise.all([
+      readFileIfExists(this.resolvePath(comparison, pair.oldPath, 'base')),
+      readFileIfExists(this.resolvePath(comparison, pair.newPath, 'compare'))
+    ]);
+
+    if (oldBlob && newBlob && oldBlob.equals(newBlob)) {
+      return undefined;
+    }
+
+    const file: DiffFile = {
+      oldPath: pair.oldPath,
+      newPath: pair.newPath,
+      status: getStatus(oldBlob, newBlob),
+      additions: 0,
+      deletions: 0,
+      isBinary: isBinary(oldBlob) || isBinary(newBlob)
+    };
+
+    // Line counts of files over the size limit are left out, as diffing them would be slow
+    const maxFileSize = vscode.workspace.getConfiguration('intellidiff').get<number>('maxFileSize', 1024 * 1024);
+    if (file.isBinary || Math.max(oldBlob?.length || 0, newBlob?.length || 0) > maxFileSize) {
+      return file;
+    }
+
+    for (const part of diffLines(oldBlob?.toString('utf-8') ?? '', newBlob?.toString('utf-8') ?? '')) {
+      if (part.added) {
+        file.additions += part.count ?? 0;
+      } else if (part.removed) {
+        file.deletions += part.count ?? 0;
+      }
+    }
+
+    return file;
+  }
+}
+
+/**
+ * List the files below a folder, as relative paths with forward slashes.
+ * Symbolic links and other special files are left out.
+ */
+async function listFiles(root: string, relativePath: string = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(root, relativePath), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+      files.push(...await listFiles(root, entryPath));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+async function readFileIfExists(filePath: string): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    // The file is only on the other side
+    return undefined;
+  }
+}
+
+function getStatus(oldBlob: Buffer | undefined, newBlob: Buffer | undefined): FileStatus {
+  if (!oldBlob) {
+    return FileStatus.ADDED;
+  }
+  return newBlob ? FileStatus.MODIFIED : FileStatus.DELETED;
+}
+
+/**
+ * Check whether a file is binary the way git does, by a NUL byte near its start
+ */
+function isBinary(content: Buffer | undefined): boolean {
+  return !!content && content.subarray(0, BINARY_CHECK_LENGTH).includes(0);
+}
+
+function countLines(content: string | undefined): number {
+  return content ? content.split('\n').length : 0;
+}
+
+function countChanges(fileDiff: FileDiff, type: ChangeType): number {
+  return fileDiff.chunks.reduce(
+    (count, chunk) => count + chunk.changes.filter(change => change.type === type).length,
+    0
+  );
+}
@@ -1,23 +1,116 @@
 import * as vscode from 'vscode';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import simpleGit, { SimpleGit } from 'simple-git';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { spawn } from 'child_process';
+import simpleGit, { DefaultLogFields, SimpleGit } from 'simple-git';
 import { 
   GitCommit, 
   GitReference, 
   GitReferenceType, 
+  GitStash,
+  BranchTracking,
+  ChangeType,
+  ConflictFile,
+  DiffChange,
   DiffFile, 
   FileDiff, 
+  FileDiffLoadOptions,
   FileStatus,
-  DiffChunk
+  FileRevision,
+  ComparisonMode,
+  ComparisonOptions,
+  PatchApplyOptions
 } from '../models/gitTypes';
 import { parseGitDiff } from '../utils/diffParser';
+import { addInlineSegments } from '../utils/inlineDiff';
+import { detectMovedCode } from '../utils/moveDetector';
+import { LruCache } from '../utils/lruCache';
+import { getPathspecs } from '../utils/pathFilter';
+import { isSameConflict, parseConflictHunks } from '../utils/conflictParser';
+
+// Directories that are never searched for nested repositories
+const IGNORED_SCAN_DIRECTORIES = new Set(['node_modules', 'dist', 'out', 'build']);
+
+// How many directory levels below a workspace folder are searched for nested repositories
+const MAX_REPOSITORY_SCAN_DEPTH = 3;
+
+// Total size of the file contents kept in memory, in bytes
+const BLOB_CACHE_SIZE = 64 * 1024 * 1024;
+
+// Object name git reports for a side that has no blob, e.g. the working tree
+const NULL_SHA_PATTERN = /^0+$/;
+
+// Where refs fetched from other local repositories are kept, so their objects
+// survive garbage collection while compared; branch and tag lists never show them
+const EXTERNAL_REFS_NAMESPACE = 'refs/intellidiff/external';
+
+/**
+ * A file in `git diff --raw --numstat` output
+ */
+interface RawDiffEntry {
+  oldPath: string;
+  newPath: string;
+  // Status letter, followed by the similarity for renames and copies
+  status: string;
+  oldSha: string;
+  newSha: string;
+  similarity?: number;
+  isBinary: boolean;
+  additions: number;
+  deletions: number;
+  // False when numstat left the file out because its only changes were ignored
+  hasStats: boolean;
+}
+
+/**
+ * Get the git object name of a side of a diff entry, hashing the content
+ * like `git hash-object` when git did not name it, e.g. for the working tree
+ */
+function getBlobId(sha: string, content: Buffer | undefined): string | undefined {
+  if (!NULL_SHA_PATTERN.test(sha)) {
+    return sha;
+  }
+
+  return content ? hashBlob(content) : undefined;
+}
+
+/**
+ * Get the git object name a file's content would have as a blob, like `git hash-object`
+ */
+export function hashBlob(content: Buffer): string {
+  return crypto.createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+/**
+ * Count the lines of a file's content
+ */
+function countLines(content: string | undefined): number {
+  return content ? content.split('\n').length : 0;
+}
 
 export class GitService {
   private git: SimpleGit | null = null;
+  private repositories: Map<string, SimpleGit> = new Map();
+  private activeRoot: string | null = null;
+  private initialization: Promise<void>;
+  
+  // Blob contents by object name; a blob never changes, so entries stay valid
+  private blobCache = new LruCache<string, Buffer>(BLOB_CACHE_SIZE, blob => blob.length);
+  
+  // Trees combining a stash with its untracked files, by stash commit
+  private stashTrees: Map<string, string> = new Map();
+  
+  // Changed lines of the whole comparison, used for move detection; kept until
+  // the next comparison or a change to the repository
+  private comparisonChanges?: { key: string; diffs: Promise<FileDiff[]> };
   
   constructor() {
-    this.initGit();
+    this.initialization = this.initGit();
   }
   
   private async initGit(): Promise<void> {
@@ -28,22 +121,186 @@ export class GitService {
       return;
     }
     
-    const rootPath = workspaceFolders[0].uri.fsPath;
     try {
-      this.git = simpleGit(rootPath);
-      const isRepo = await this.git.checkIsRepo();
+      await this.discoverRepositories();
       
-      if (!isRepo) {
+      if (this.repositories.size === 0) {
         vscode.window.showWarningMessage('Current workspace is not a Git repository');
-        this.git = null;
       }
     } catch (error) {
       console.error('Failed to initialize Git:', error);
       vscode.window.showErrorMessage('Failed to initialize Git');
-      this.git = null;
     }
   }
   
+  /**
+   * Find every repository in the workspace: the repository containing each
+   * workspace folder and any repositories nested inside the folders.
+   * The active repository is kept if it is still part of the workspace.
+   */
+  public async discoverRepositories(): Promise<string[]> {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const roots = new Set<string>();
+    
+    for (const folder of workspaceFolders) {
+      const folderPath = folder.uri.fsPath;
+      
+      const root = await this.getRepositoryRootFor(folderPath);
+      if (root) {
+        roots.add(root);
+      }
+      
+      for (const nestedRoot of await this.findNestedRepositories(folderPath, MAX_REPOSITORY_SCAN_DEPTH)) {
+        roots.add(nestedRoot);
+      }
+    }
+    
+    const repositories = new Map<string, SimpleGit>();
+    for (const root of Array.from(roots).sort()) {
+      repositories.set(root, this.repositories.get(root) || simpleGit(root));
+    }
+    this.repositories = repositories;
+    
+    if (!this.activeRoot || !this.repositories.has(this.activeRoot)) {
+      const [firstRoot] = this.repositories.keys();
+      this.setActiveRepository(firstRoot);
+    }
+    
+    return this.getRepositoryRoots();
+  }
+  
+  /**
+   * Get the root paths of all discovered repositories
+   */
+  public async getRepositories(): Promise<string[]> {
+    await this.initialization;
+    return this.getRepositoryRoots();
+  }
+  
+  /**
+   * Get the root paths of all discovered repositories without waiting for discovery
+   */
+  public getRepositoryRoots(): string[] {
+    return Array.from(this.repositories.keys());
+  }
+  
+  /**
+   * Get the root path of the repository that commands operate on
+   */
+  public getActiveRepository(): string | undefined {
+    return this.activeRoot || undefined;
+  }
+  
+  /**
+   * Switch the repository that commands operate on
+   */
+  public setActiveRepository(rootPath: string | undefined): void {
+    const git = rootPath ? this.repositories.get(rootPath) : undefined;
+    
+    if (rootPath && !git) {
+      throw new Error(`Unknown repository: ${rootPath}`);
+    }
+    
+    this.activeRoot = rootPath || null;
+    this.git = git || null;
+  }
+  
+  /**
+   * Resolve a repository-relative path to an absolute path
+   */
+  public resolvePath(filePath: string): string {
+    if (!this.activeRoot) {
+      throw new Error('Git is not initialized');
+    }
+    
+    return path.join(this.activeRoot, filePath);
+  }
+  
+  /**
+   * Get a repository's git directory, which holds its HEAD and index, and the
+   * common directory with its refs. They differ in linked worktrees.
+   */
+  public async getGitDirectories(rootPath: string): Promise<{ gitDir: string, commonDir: string }> {
+    const git = this.repositories.get(rootPath);
+    if (!git) {
+      throw new Error(`Unknown repository: ${rootPath}`);
+    }
+    
+    const [gitDir, commonDir] = (await git.revparse(['--absolute-git-dir', '--git-common-dir']))
+      .split('\n')
+      .map(line => line.trim());
+    
+    return { gitDir, commonDir: path.resolve(rootPath, commonDir) };
+  }
+  
+  /**
+   * Get which of some paths in a repository are ignored by git
+   */
+  public async getIgnoredPaths(rootPath: string, filePaths: string[]): Promise<string[]> {
+    const git = this.repositories.get(rootPath);
+    if (!git || filePaths.length === 0) {
+      return [];
+    }
+    
+    // check-ignore exits with an error when none of the paths are ignored
+    const output = await git.raw(['check-ignore', '--', ...filePaths]).catch(() => '');
+    return output.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+  
+  /**
+   * Get the top-level directory of the repository containing a folder
+   */
+  private async getRepositoryRootFor(folderPath: string): Promise<string | undefined> {
+    try {
+      const git = simpleGit(folderPath);
+      if (!(await git.checkIsRepo())) {
+        return undefined;
+      }
+      
+      const root = await git.revparse(['--show-toplevel']);
+      return path.normalize(root.trim());
+    } catch (error) {
+      console.log(`Folder ${folderPath} is not inside a Git repository`);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Search below a folder for directories that hold their own `.git`
+   * (a directory for plain repositories, a file for submodules and worktrees)
+   */
+  private async findNestedRepositories(folderPath: string, depth: number): Promise<string[]> {
+    if (depth <= 0) {
+      return [];
+    }
+    
+    let entries;
+    try {
+      entries = await fs.readdir(folderPath, { withFileTypes: true });
+    } catch (error) {
+      return [];
+    }
+    
+    const roots: string[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || IGNORED_SCAN_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+      
+      const childPath = path.join(folderPath, entry.name);
+      try {
+        await fs.stat(path.join(childPath, '.git'));
+        roots.push(path.normalize(childPath));
+      } catch (error) {
+        // Not a repository root
+      }
+      
+      roots.push(...await this.findNestedRepositories(childPath, depth - 1));
+    }
+    
+    return roots;
+  }
+  
   /**
    * Check if Git is available
    */
@@ -52,409 +309,1445 @@ export class GitService {
   }
   
   /**
-   * Get all branches in the repository
+   * Get the remote-tracking branches already fetched, e.g. origin/main.
+   * Symbolic refs such as origin/HEAD are left out.
    */
-  public async getBranches(): Promise<string[]> {
+  public async getRemoteBranches(): Promise<string[]> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
     try {
-      const result = await this.git.branch();
-      return result.all;
+      const output = await this.git.raw([
+        'for-each-ref',
+        '--format=%(refname:short)%1f%(symref)',
+        'refs/remotes'
+      ]);
+      
+      return output.split('\n')
+        .filter(Boolean)
+        .map(line => line.split('\x1f'))
+        .filter(([, symref]) => !symref)
+        .map(([name]) => name);
     } catch (error) {
-      console.error('Failed to get branches:', error);
-      throw new Error('Failed to get branches');
+      console.error('Failed to get remote branches:', error);
+      throw new Error('Failed to get remote branches');
     }
   }
   
   /**
-   * Get all tags in the repository
+   * Get every local branch with its upstream and how far apart they are.
+   * Only refs already fetched are used, so this works offline.
    */
-  public async getTags(): Promise<string[]> {
+  public async getBranchTracking(): Promise<BranchTracking[]> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
     try {
-      const result = await this.git.tag(['--list']);
-      return result.split('\n').filter(Boolean);
+      const output = await this.git.raw([
+        'for-each-ref',
+        '--format=%(refname:short)%1f%(upstream:short)%1f%(upstream:track)',
+        'refs/heads'
+      ]);
+      
+      return output.split('\n').filter(Boolean).map(line => {
+        // The track field looks like "[ahead 2, behind 1]", or "[gone]"
+        const [name, upstream, track] = line.split('\x1f');
+        return {
+          name,
+          upstream: upstream || undefined,
+          ahead: parseInt(/ahead (\d+)/.exec(track)?.[1] || '0', 10),
+          behind: parseInt(/behind (\d+)/.exec(track)?.[1] || '0', 10),
+          upstreamGone: track === '[gone]'
+        };
+      });
     } catch (error) {
-      console.error('Failed to get tags:', error);
-      throw new Error('Failed to get tags');
+      console.error('Failed to get branch tracking:', error);
+      throw new Error('Failed to get branch tracking');
     }
   }
   
   /**
-   * Get recent commits
+   * Get the checked-out branch with its upstream.
+   * Returns undefined when HEAD is detached.
    */
-  public async getCommits(limit: number = 50): Promise<GitCommit[]> {
+  public async getCurrentBranchTracking(): Promise<BranchTracking | undefined> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    const branch = (await this.git.raw(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => '')).trim();
+    if (!branch) {
+      return undefined;
+    }
+    
+    const tracking = await this.getBranchTracking();
+    return tracking.find(t => t.name === branch);
+  }
+  
+  /**
+   * Count the commits on the compare reference that are not on the base
+   * (ahead) and the other way round (behind)
+   */
+  public async getAheadBehind(
+    baseRef: GitReference,
+    compareRef: GitReference
+  ): Promise<{ ahead: number, behind: number }> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
+    if (!this.isRevision(baseRef) || !this.isRevision(compareRef)) {
+      throw new Error('Ahead and behind counts need a branch, tag or commit on both sides');
+    }
+    
     try {
-      const result = await this.git.log({
-        maxCount: limit
-      });
+      const output = await this.git.raw([
+        'rev-list',
+        '--left-right',
+        '--count',
+        `${this.getRefString(baseRef)}...${this.getRefString(compareRef)}`
+      ]);
       
-      return result.all.map(commit => ({
-        hash: commit.hash,
-        shortHash: commit.hash.substring(0, 7),
-        author: commit.author_name,
-        date: new Date(commit.date),
-        message: commit.message
-      }));
+      const [behind, ahead] = output.trim().split(/\s+/).map(count => parseInt(count, 10));
+      return { ahead, behind };
     } catch (error) {
-      console.error('Failed to get commits:', error);
-      throw new Error('Failed to get commits');
+      console.error(`Failed to count commits between ${baseRef.name} and ${compareRef.name}:`, error);
+      throw new Error(`Failed to count commits between ${baseRef.name} and ${compareRef.name}`);
     }
   }
   
   /**
-   * Compare two Git references and return list of changed files
+   * Get all tags in the repository
    */
-  public async compareRefs(baseRef: GitReference, compareRef: GitReference): Promise<DiffFile[]> {
+  public async getTags(): Promise<string[]> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
     try {
-      let baseRefStr = this.getRefString(baseRef);
-      let compareRefStr = this.getRefString(compareRef);
-      
-      // Get raw diff output
-      const diffOutput = await this.git.diff([
-        '--name-status',
-        baseRefStr,
-        compareRefStr
-      ]);
-      
-      // Parse diff output and get list of files
-      const files: DiffFile[] = [];
-      const lines = diffOutput.split('\n').filter(Boolean);
-      
-      for (const line of lines) {
-        const [status, ...paths] = line.split('\t');
-        
-        // Handle renamed files (path1 -> path2)
-        if (status.startsWith('R')) {
-          files.push({
-            oldPath: paths[0],
-            newPath: paths[1],
-            status: FileStatus.RENAMED,
-            additions: 0,
-            deletions: 0,
-            isBinary: false
-          });
-        } else {
-          const filePath = paths[0];
-          files.push({
-            oldPath: filePath,
-            newPath: filePath,
-            status: this.mapGitStatusToFileStatus(status),
-            additions: 0,
-            deletions: 0,
-            isBinary: false
-          });
-        }
-      }
-      
-      // Check for binary files and get addition/deletion stats
-      const statOutput = await this.git.diff([
-        '--numstat',
-        baseRefStr,
-        compareRefStr
-      ]);
-      
-      const statLines = statOutput.split('\n').filter(Boolean);
-      
-      for (const statLine of statLines) {
-        const [additions, deletions, filePath] = statLine.split('\t');
-        
-        // Find the file in our list
-        const file = files.find(f => 
-          f.newPath === filePath || 
-          f.oldPath === filePath
-        );
-        
-        if (file) {
-          // Binary files are represented with '-' in numstat
-          if (additions === '-' && deletions === '-') {
-            file.isBinary = true;
-          } else {
-            file.additions = parseInt(additions, 10);
-            file.deletions = parseInt(deletions, 10);
-          }
-        }
-      }
-      
-      return files;
+      const result = await this.git.tag(['--list']);
+      return result.split('\n').filter(Boolean);
     } catch (error) {
-      console.error('Failed to compare refs:', error);
-      throw new Error('Failed to compare Git references');
+      console.error('Failed to get tags:', error);
+      throw new Error('Failed to get tags');
     }
   }
   
   /**
-   * Get detailed diff for a specific file between two refs
+   * Get the stash list, newest first
    */
-  public async getFileDiff(
-    baseRef: GitReference, 
-    compareRef: GitReference, 
-    filePath: string
-  ): Promise<FileDiff> {
+  public async getStashes(): Promise<GitStash[]> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
     try {
-      const baseRefStr = this.getRefString(baseRef);
-      const compareRefStr = this.getRefString(compareRef);
-      
-      // Check if file is binary
-      const isBinary = await this.isFileBinary(baseRefStr, compareRefStr, filePath);
+      const output = await this.git.raw([
+        'stash',
+        'list',
+        '--format=%H%x1f%gd%x1f%aI%x1f%gs%x1f%P'
+      ]);
       
-      if (isBinary) {
-        // For binary files, we just return basic info without chunks
+      return output.split('\n').filter(Boolean).map(line => {
+        const [hash, name, date, message, parents] = line.split('\x1f');
         return {
-          oldPath: filePath,
-          newPath: filePath,
-          status: await this.getFileStatus(baseRefStr, compareRefStr, filePath),
-          isBinary: true,
-          chunks: []
+          hash,
+          name,
+          message,
+          date: new Date(date),
+          // The untracked files are kept in a third parent commit
+          hasUntracked: parents.split(' ').length > 2
         };
-      }
-      
-      // For text files, get the full diff
-      const diffOutput = await this.git.diff([
-        '-U10000', // Large context to ensure we get the whole file
-        baseRefStr,
-        compareRefStr,
-        '--',
-        filePath
-      ]);
-      
-      // Parse the diff output
-      const parsedDiff = parseGitDiff(diffOutput);
-      
-      if (parsedDiff.length === 0) {
-        throw new Error(`No diff found for file: ${filePath}`);
-      }
-      
-      const fileDiff = parsedDiff[0];
-      
-      // Get the old and new content for the file
-      const oldContent = await this.getFileContent(baseRef, filePath);
-      const newContent = await this.getFileContent(compareRef, filePath);
-      
-      return {
-        ...fileDiff,
-        oldContent,
-        newContent
-      };
+      });
     } catch (error) {
-      console.error(`Failed to get diff for file ${filePath}:`, error);
-      throw new Error(`Failed to get diff for file: ${filePath}`);
+      console.error('Failed to get stashes:', error);
+      throw new Error('Failed to get stashes');
     }
   }
   
   /**
-   * Get binary file contents for both versions
+   * Get recent commits
    */
-  public async getBinaryFilesContent(
-    baseRef: GitReference,
-    compareRef: GitReference,
-    filePath: string
-  ): Promise<{ oldContent: Buffer | null, newContent: Buffer | null }> {
+  public async getCommits(limit: number = 50): Promise<GitCommit[]> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
     try {
-      const baseRefStr = this.getRefString(baseRef);
-      const compareRefStr = this.getRefString(compareRef);
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      
-      if (!workspaceFolders) {
-        throw new Error('No workspace folder is open');
-      }
-      
-      const rootPath = workspaceFolders[0].uri.fsPath;
-      const tempDir = path.join(rootPath, '.intellidiff_temp');
-      
-      // Create temp directory if it doesn't exist
-      try {
-        await fs.mkdir(tempDir, { recursive: true });
-      } catch (err) {
-        console.log('Temp directory already exists or error creating it:', err);
-      }
-      
-      // Files to store the content
-      const oldFilePath = path.join(tempDir, 'old_' + path.basename(filePath));
-      const newFilePath = path.join(tempDir, 'new_' + path.basename(filePath));
-      
-      let oldContent: Buffer | null = null;
-      let newContent: Buffer | null = null;
-      
-      // Get old version content if it exists
-      try {
-        await this.git.show([
-          `${baseRefStr}:${filePath}`,
-          `--output=${oldFilePath}`
-        ]);
-        oldContent = await fs.readFile(oldFilePath);
-      } catch (err) {
-        console.log(`File ${filePath} does not exist in ${baseRefStr}`);
-      }
-      
-      // Get new version content if it exists
-      try {
-        await this.git.show([
-          `${compareRefStr}:${filePath}`,
-          `--output=${newFilePath}`
-        ]);
-        newContent = await fs.readFile(newFilePath);
-      } catch (err) {
-        console.log(`File ${filePath} does not exist in ${compareRefStr}`);
-      }
-      
-      // Clean up temp files
-      try {
-        if (oldContent) await fs.unlink(oldFilePath);
-        if (newContent) await fs.unlink(newFilePath);
-      } catch (err) {
-        console.log('Error removing temp files:', err);
-      }
+      const result = await this.git.log({
+        maxCount: limit
+      });
       
-      return { oldContent, newContent };
+      return result.all.map(commit => this.mapLogEntry(commit));
     } catch (error) {
-      console.error(`Failed to get binary content for file ${filePath}:`, error);
-      throw new Error(`Failed to get binary content for file: ${filePath}`);
+      console.error('Failed to get commits:', error);
+      throw new Error('Failed to get commits');
     }
   }
   
   /**
-   * Get the content of a file at a specific reference
+   * Get recent merge commits, i.e. commits with more than one parent
    */
-  private async getFileContent(ref: GitReference, filePath: string): Promise<string | undefined> {
+  public async getMergeCommits(limit: number = 50): Promise<GitCommit[]> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
     try {
-      const refStr = this.getRefString(ref);
-      
-      // Special case for working tree
-      if (ref.type === GitReferenceType.WORKING_TREE) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-          throw new Error('No workspace folder is open');
-        }
-        
-        const rootPath = workspaceFolders[0].uri.fsPath;
-        const absolutePath = path.join(rootPath, filePath);
-        
-        try {
-          const content = await fs.readFile(absolutePath, 'utf-8');
-          return content;
-        } catch (err) {
-          // File might not exist in working tree
-          return undefined;
-        }
-      }
+      const result = await this.git.log(['--merges', `--max-count=${limit}`]);
       
-      // For other refs, use git show
-      try {
-        const content = await this.git.show([`${refStr}:${filePath}`]);
-        return content;
-      } catch (err) {
-        // File might not exist at this ref
-        return undefined;
-      }
+      return result.all.map(commit => this.mapLogEntry(commit));
     } catch (error) {
-      console.error(`Failed to get content for file ${filePath}:`, error);
-      return undefined;
+      console.error('Failed to get merge commits:', error);
+      throw new Error('Failed to get merge commits');
     }
   }
   
   /**
-   * Check if a file is binary
+   * Get the full hashes of a commit's parents, first parent first.
+   * A merge commit has two or more; the index and working tree have none.
    */
-  private async isFileBinary(
-    baseRefStr: string, 
-    compareRefStr: string, 
-    filePath: string
-  ): Promise<boolean> {
+  public async getParents(ref: GitReference): Promise<string[]> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
+    if (!this.isRevision(ref)) {
+      return [];
+    }
+    
     try {
-      const diffOutput = await this.git.diff([
-        '--numstat',
-        baseRefStr,
-        compareRefStr,
-        '--',
-        filePath
-      ]);
-      
-      const lines = diffOutput.split('\n').filter(Boolean);
-      
-      for (const line of lines) {
-        const [additions, deletions] = line.split('\t');
-        // Binary files are represented with '-' in numstat
-        if (additions === '-' && deletions === '-') {
-          return true;
-        }
-      }
-      
-      return false;
+      // "<commit> <parent>..."
+      const result = await this.git.raw(['rev-list', '--parents', '--max-count=1', this.getRefString(ref)]);
+      return result.trim().split(' ').slice(1);
     } catch (error) {
-      console.error(`Failed to check if file ${filePath} is binary:`, error);
-      return false;
+      console.error(`Failed to get parents of ${ref.name}:`, error);
+      throw new Error(`Failed to get parents of ${ref.name}`);
     }
   }
   
   /**
-   * Get the status of a file between two refs
+   * Resolve a revision expression such as `HEAD~3`, `origin/main` or `v1.2^{}`
+   * to the commit it names. Returns undefined if git does not understand it.
    */
-  private async getFileStatus(
-    baseRefStr: string,
-    compareRefStr: string,
-    filePath: string
-  ): Promise<FileStatus> {
+  public async resolveRevision(expression: string): Promise<GitCommit | undefined> {
     if (!this.git) {
       throw new Error('Git is not initialized');
     }
     
+    // An expression starting with a dash would be read as an option
+    if (!expression || expression.startsWith('-')) {
+      return undefined;
+    }
+    
     try {
-      const diffOutput = await this.git.diff([
-        '--name-status',
-        baseRefStr,
-        compareRefStr,
-        '--',
-        filePath
-      ]);
-      
-      const lines = diffOutput.split('\n').filter(Boolean);
+      const hash = (await this.git.raw([
+        'rev-parse',
+        '--verify',
+        '--quiet',
+        `${expression}^{commit}`
+      ])).trim();
       
-      if (lines.length === 0) {
-        return FileStatus.MODIFIED; // Default
+      if (!hash) {
+        return undefined;
       }
       
-      const [status] = lines[0].split('\t');
-      return this.mapGitStatusToFileStatus(status);
+      const result = await this.git.log(['-1', hash]);
+      return result.latest ? this.mapLogEntry(result.latest) : undefined;
     } catch (error) {
-      console.error(`Failed to get status for file ${filePath}:`, error);
-      return FileStatus.MODIFIED; // Default fallback
+      return undefined;
     }
   }
   
   /**
-   * Map Git status code to FileStatus enum
+   * Get the branches and tags of another local repository, e.g. an upstream
+   * clone next to a fork, as full ref names such as refs/heads/main
    */
-  private mapGitStatusToFileStatus(status: string): FileStatus {
+  public async getExternalRefs(repositoryPath: string): Promise<string[]> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      // "<hash>\t<ref name>"; --refs leaves out the peeled tags
+      const output = await this.git.raw(['ls-remote', '--heads', '--tags', '--refs', repositoryPath]);
+      
+      return output.split('\n')
+        .filter(Boolean)
+        .map(line => line.split('\t')[1]);
+    } catch (error) {
+      console.error(`Failed to list refs of ${repositoryPath}:`, error);
+      throw new Error(`Failed to list refs of ${repositoryPath}; is it a git repository?`);
+    }
+  }
+  
+  /**
+   * Fetch a branch or tag of another local repository into the active one, so
+   * it can be compared like any commit. The objects are kept under a ref of
+   * their own until removeExternalRefs is called.
+   */
+  public async fetchExternalRef(repositoryPath: string, refName: string): Promise<GitReference> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    // One folder per repository, so refs with the same name in different repositories do not clash
+    const repositoryId = crypto.createHash('sha1').update(path.resolve(repositoryPath)).digest('hex').slice(0, 12);
+    const localRef = `${EXTERNAL_REFS_NAMESPACE}/${repositoryId}/${refName.replace(/^refs\//, '')}`;
+    
+    try {
+      await this.git.raw(['fetch', '--no-tags', '--quiet', repositoryPath, `+${refName}:${localRef}`]);
+      const hash = (await this.git.raw(['rev-parse', '--verify', `${localRef}^{commit}`])).trim();
+      
+      return {
+        type: GitReferenceType.COMMIT,
+        name: `${path.basename(repositoryPath)}:${refName.replace(/^refs\/(heads|tags)\//, '')}`,
+        id: hash
+      };
+    } catch (error) {
+      console.error(`Failed to fetch ${refName} from ${repositoryPath}:`, error);
+      throw new Error(`Failed to fetch ${refName} from ${repositoryPath}`);
+    }
+  }
+  
+  /**
+   * Remove the refs fetched from other repositories, so git can collect their objects.
+   * Returns how many were removed.
+   */
+  public async removeExternalRefs(): Promise<number> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      const refs = (await this.git.raw(['for-each-ref', '--format=%(refname)', EXTERNAL_REFS_NAMESPACE]))
+        .split('\n')
+        .filter(Boolean);
+      
+      if (refs.length > 0) {
+        await this.runGit(['update-ref', '--stdin'], refs.map(ref => `delete ${ref}\n`).join(''));
+      }
+      
+      return refs.length;
+    } catch (error) {
+      console.error('Failed to remove fetched refs:', error);
+      throw new Error('Failed to remove fetched refs');
+    }
+  }
+  
+  /**
+   * Get the commits reachable from the tip but not from the base (`base..tip`),
+   * oldest first so they can be reviewed in the order they were made
+   */
+  public async getCommitsInRange(baseRef: GitReference, tipRef: GitReference): Promise<GitCommit[]> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    if (!this.isRevision(baseRef) || !this.isRevision(tipRef)) {
+      throw new Error('A commit range needs a branch, tag or commit on both ends');
+    }
+    
+    try {
+      const result = await this.git.log([
+        '--reverse',
+        `${this.getRefString(baseRef)}..${this.getRefString(tipRef)}`
+      ]);
+      
+      return result.all.map(commit => this.mapLogEntry(commit));
+    } catch (error) {
+      console.error(`Failed to get commits between ${baseRef.name} and ${tipRef.name}:`, error);
+      throw new Error(`Failed to get commits between ${baseRef.name} and ${tipRef.name}`);
+    }
+  }
+  
+  /**
+   * Get every commit that touched a file, newest first.
+   * Renames are followed, so older revisions may have a different path.
+   */
+  public async getFileHistory(filePath: string): Promise<FileRevision[]> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      // One record per commit: header fields, then the --name-status line for the file
+      const output = await this.git.raw([
+        'log',
+        '--follow',
+        '--name-status',
+        '--format=%x1e%H%x1f%an%x1f%aI%x1f%s',
+        '--',
+        filePath
+      ]);
+      
+      const revisions: FileRevision[] = [];
+      
+      for (const record of output.split('\x1e').filter(r => r.trim())) {
+        const [header, ...statusLines] = record.split('\n');
+        const [hash, author, date, message] = header.split('\x1f');
+        const statusLine = statusLines.find(Boolean);
+        
+        // Renames list old and new path; the last one is the path at this commit
+        const paths = statusLine ? statusLine.split('\t').slice(1) : [];
+        
+        revisions.push({
+          commit: {
+            hash,
+            shortHash: hash.substring(0, 7),
+            author,
+            date: new Date(date),
+            message
+          },
+          path: paths[paths.length - 1] || filePath
+        });
+      }
+      
+      return revisions;
+    } catch (error) {
+      console.error(`Failed to get history for file ${filePath}:`, error);
+      throw new Error(`Failed to get history for file: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Get the repository containing an absolute path, preferring the innermost
+   * one when repositories are nested
+   */
+  public getRepositoryForPath(absolutePath: string): string | undefined {
+    const normalizedPath = path.normalize(absolutePath);
+    
+    return this.getRepositoryRoots()
+      .filter(root => normalizedPath === root || normalizedPath.startsWith(root + path.sep))
+      .sort((a, b) => b.length - a.length)[0];
+  }
+  
+  /**
+   * Check whether a reference names the commit HEAD is on, e.g. the current branch or `HEAD` itself
+   */
+  public async isHead(ref: GitReference): Promise<boolean> {
+    if (!this.git || !this.isRevision(ref)) {
+      return false;
+    }
+    
+    try {
+      // --verify takes a single revision; without it, one that does not resolve fails the call
+      const [hash, headHash] = (await this.git.raw([
+        'rev-parse',
+        `${this.getRefString(ref)}^{commit}`,
+        'HEAD^{commit}'
+      ])).trim().split('\n');
+      
+      return !!hash && hash === headHash;
+    } catch (error) {
+      // HEAD is unborn or the reference no longer resolves
+      return false;
+    }
+  }
+  
+  /**
+   * Check whether the index holds changes to a file that HEAD does not have
+   */
+  public async hasStagedChanges(filePath: string, oldFilePath: string = filePath): Promise<boolean> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      const paths = oldFilePath === filePath ? [filePath] : [oldFilePath, filePath];
+      const output = await this.git.raw(['diff', '--cached', '--name-only', '--', ...paths]);
+      return output.trim().length > 0;
+    } catch (error) {
+      console.error(`Failed to check staged changes of ${filePath}:`, error);
+      throw new Error(`Failed to check staged changes of ${filePath}`);
+    }
+  }
+  
+  /**
+   * Get the merge base of two references, as used by `git diff base...compare`.
+   * The index and the working tree stand in for HEAD.
+   */
+  public async getMergeBase(baseRef: GitReference, compareRef: GitReference): Promise<string> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    const baseStr = this.isRevision(baseRef) ? this.getRefString(baseRef) : 'HEAD';
+    const compareStr = this.isRevision(compareRef) ? this.getRefString(compareRef) : 'HEAD';
+    
+    try {
+      const result = await this.git.raw(['merge-base', baseStr, compareStr]);
+      return result.trim();
+    } catch (error) {
+      console.error(`Failed to find merge base of ${baseStr} and ${compareStr}:`, error);
+      throw new Error(`No merge base found between ${baseRef.name} and ${compareRef.name}`);
+    }
+  }
+  
+  /**
+   * Compare two Git references and return list of changed files
+   */
+  public async compareRefs(
+    baseRef: GitReference,
+    compareRef: GitReference,
+    options: ComparisonOptions = {}
+  ): Promise<DiffFile[]> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      [baseRef, compareRef] = await this.resolveRefs(baseRef, compareRef, options);
+      const diffArgs = this.getDiffArgs(baseRef, compareRef);
+      const whitespaceArgs = this.getWhitespaceArgs(options);
+      
+      // A new comparison starts over with the changes used for move detection
+      this.comparisonChanges = undefined;
+      
+      if (options.mode === ComparisonMode.COMBINED) {
+        return await this.getCombinedFiles(compareRef, options);
+      }
+      
+      const entries = await this.getRawDiff([
+        ...this.getAlgorithmArgs(options),
+        ...whitespaceArgs,
+        ...this.getDetectionArgs(),
+        ...diffArgs,
+        ...this.getPathFilterArgs(options)
+      ]);
+      
+      // Paths left unmerged are conflicts whenever the index or working tree is compared
+      const unmergedPaths = this.isRevision(baseRef) && this.isRevision(compareRef) ?
+        new Set<string>() :
+        new Set(await this.getUnmergedPaths());
+      
+      // With whitespace ignored, numstat leaves out files whose only changes were ignored
+      return entries
+        .filter(entry => whitespaceArgs.length === 0 || entry.hasStats || unmergedPaths.has(entry.newPath))
+        .map(entry => ({
+          oldPath: entry.oldPath,
+          newPath: entry.newPath,
+          status: unmergedPaths.has(entry.newPath) ?
+            FileStatus.CONFLICTED :
+            this.mapGitStatusToFileStatus(entry.status),
+          additions: entry.additions,
+          deletions: entry.deletions,
+          isBinary: entry.isBinary,
+          similarity: entry.similarity
+        }));
+    } catch (error) {
+      console.error('Failed to compare refs:', error);
+      throw new Error('Failed to compare Git references');
+    }
+  }
+  
+  /**
+   * Get the changes between two refs as a patch that `git apply` accepts,
+   * limited to the given files or else to the comparison's path filter.
+   * Whitespace options are left out: a patch that ignores whitespace does not apply.
+   */
+  public async getPatch(
+    baseRef: GitReference,
+    compareRef: GitReference,
+    options: ComparisonOptions = {},
+    filePaths?: string[]
+  ): Promise<string> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      [baseRef, compareRef] = await this.resolveRefs(baseRef, compareRef, options);
+      
+      const output = await this.runGit([
+        'diff',
+        '--binary',
+        ...this.getAlgorithmArgs(options),
+        ...this.getDetectionArgs(),
+        ...this.getDiffArgs(baseRef, compareRef),
+        ...(filePaths ? ['--', ...filePaths] : this.getPathFilterArgs(options))
+      ]);
+      return output.toString('utf-8');
+    } catch (error) {
+      console.error('Failed to create patch:', error);
+      throw new Error('Failed to create patch');
+    }
+  }
+  
+  /**
+   * Get the commits from a base to a tip revision as a `git format-patch` mailbox,
+   * one message per commit, limited to the comparison's path filter
+   */
+  public async getFormatPatch(
+    baseRef: GitReference,
+    tipRef: GitReference,
+    options: ComparisonOptions = {}
+  ): Promise<string> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    if (!this.isRevision(baseRef) || !this.isRevision(tipRef) ||
+        baseRef.type === GitReferenceType.STASH || tipRef.type === GitReferenceType.STASH) {
+      throw new Error('A patch series needs a branch, tag or commit on both ends');
+    }
+    
+    let output: string;
+    try {
+      output = (await this.runGit([
+        'format-patch',
+        '--stdout',
+        ...this.getDetectionArgs(),
+        `${this.getRefString(baseRef)}..${this.getRefString(tipRef)}`,
+        ...this.getPathFilterArgs(options)
+      ])).toString('utf-8');
+    } catch (error) {
+      console.error('Failed to create patch series:', error);
+      throw new Error('Failed to create patch series');
+    }
+    
+    if (!output) {
+      throw new Error(`${tipRef.name} has no commits that ${baseRef.name} does not have`);
+    }
+    return output;
+  }
+  
+  /**
+   * Get the paths left unmerged by a merge, rebase or cherry-pick
+   */
+  public async getUnmergedPaths(): Promise<string[]> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      // One "<mode> <sha> <stage>\t<path>" record per stage of each path
+      const output = await this.git.raw(['ls-files', '--unmerged', '-z']);
+      const paths = output.split('\0')
+        .filter(Boolean)
+        .map(record => record.substring(record.indexOf('\t') + 1));
+      
+      return Array.from(new Set(paths));
+    } catch (error) {
+      console.error('Failed to get unmerged paths:', error);
+      throw new Error('Failed to get unmerged paths');
+    }
+  }
+  
+  /**
+   * Get the base, ours and theirs versions of an unmerged path from index
+   * stages 1 to 3, and the conflict hunks of its working tree file.
+   * Pass the working tree content if it has unsaved edits.
+   */
+  public async getConflictFile(filePath: string, workingContent?: string): Promise<ConflictFile> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      const output = await this.git.raw(['ls-files', '--unmerged', '-z', '--', filePath]);
+      const stageShas = new Map<number, string>();
+      
+      for (const record of output.split('\0').filter(Boolean)) {
+        const [, sha, stage] = record.substring(0, record.indexOf('\t')).split(' ');
+        stageShas.set(parseInt(stage, 10), sha);
+      }
+      
+      if (stageShas.size === 0) {
+        throw new Error(`${filePath} has no conflicts`);
+      }
+      
+      const blobs = await this.readBlobs(Array.from(stageShas.values()));
+      const readStage = (stage: number) => {
+        const sha = stageShas.get(stage);
+        return sha ? blobs.get(sha)?.toString('utf-8') : undefined;
+      };
+      
+      if (workingContent === undefined) {
+        workingContent = await fs.readFile(this.resolvePath(filePath), 'utf-8').catch(() => '');
+      }
+      
+      const conflict: ConflictFile = {
+        path: filePath,
+        base: readStage(1),
+        ours: readStage(2),
+        theirs: readStage(3),
+        hunks: parseConflictHunks(workingContent)
+      };
+      
+      // Without the diff3 conflict style the markers leave out the base;
+      // merging the stages again in that style recovers it for each hunk
+      if (conflict.hunks.some(hunk => !hunk.base) &&
+          conflict.base !== undefined && conflict.ours !== undefined && conflict.theirs !== undefined) {
+        const diff3Hunks = parseConflictHunks(
+          await this.mergeStages(conflict.base, conflict.ours, conflict.theirs)
+        );
+        
+        for (const hunk of conflict.hunks) {
+          hunk.base = hunk.base || diff3Hunks.find(h => isSameConflict(h, hunk))?.base;
+        }
+      }
+      
+      return conflict;
+    } catch (error) {
+      console.error(`Failed to get conflict for file ${filePath}:`, error);
+      throw new Error(`Failed to get conflict for file: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Mark a conflicted file as resolved by staging it
+   */
+  public async markResolved(filePath: string): Promise<void> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      await this.git.add(['--', filePath]);
+    } catch (error) {
+      console.error(`Failed to mark ${filePath} as resolved:`, error);
+      throw new Error(`Failed to mark ${filePath} as resolved`);
+    }
+  }
+  
+  /**
+   * Apply a patch to the working tree, or to the index with the cached option
+   */
+  public async applyPatch(patch: string, options: PatchApplyOptions = {}): Promise<void> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    const args = ['apply', '--recount', '--whitespace=nowarn'];
+    if (options.check) {
+      args.push('--check');
+    }
+    if (options.cached) {
+      args.push('--cached');
+    }
+    if (options.reverse) {
+      args.push('--reverse');
+    }
+    
+    try {
+      await this.runGit([...args, '-'], patch);
+    } catch (error) {
+      console.error('Failed to apply patch:', error);
+      throw new Error(`Failed to apply patch: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  
+  /**
+   * Merge changes into a working tree file that a patch of them does not apply to.
+   * `base` and `changed` are the file before and after the changes; where the
+   * working tree content also changed the same lines, conflict markers are left.
+   * Returns the number of conflicts.
+   */
+  public async mergeIntoWorkingTree(
+    filePath: string,
+    base: string,
+    changed: string,
+    changedLabel: string
+  ): Promise<number> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      const absolutePath = this.resolvePath(filePath);
+      const current = await fs.readFile(absolutePath, 'utf-8');
+      const merged = await this.mergeStages(base, current, changed, ['working tree', 'base', changedLabel]);
+      
+      await fs.writeFile(absolutePath, merged);
+      return parseConflictHunks(merged).length;
+    } catch (error) {
+      console.error(`Failed to merge changes into ${filePath}:`, error);
+      throw new Error(`Failed to merge changes into: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Replace a working tree file with its version in a revision.
+   * The file is deleted if the revision does not have it.
+   */
+  public async checkoutFile(ref: GitReference, filePath: string): Promise<void> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    if (!this.isRevision(ref)) {
+      throw new Error('Files can only be checked out from a branch, tag, commit or stash');
+    }
+    
+    try {
+      const source = this.getRefString(await this.resolveStashRef(ref));
+      const exists = await this.runGit(['cat-file', '-e', `${source}:${filePath}`])
+        .then(() => true, () => false);
+      
+      if (exists) {
+        await this.runGit(['restore', `--source=${source}`, '--worktree', '--', filePath]);
+      } else {
+        await fs.rm(this.resolvePath(filePath), { force: true });
+      }
+    } catch (error) {
+      console.error(`Failed to check out ${filePath}:`, error);
+      throw new Error(`Failed to check out file: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Save the working tree content of a file as a blob, so it can be restored later.
+   * Returns the blob's hash, or undefined if the file does not exist.
+   */
+  public async snapshotFile(filePath: string): Promise<string | undefined> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      const exists = await fs.access(this.resolvePath(filePath)).then(() => true, () => false);
+      if (!exists) {
+        return undefined;
+      }
+      
+      return (await this.runGit(['hash-object', '-w', '--', filePath])).toString().trim();
+    } catch (error) {
+      console.error(`Failed to snapshot file ${filePath}:`, error);
+      throw new Error(`Failed to snapshot file: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Write a blob saved by snapshotFile back to the working tree.
+   * Without a blob the file did not exist, so it is deleted.
+   */
+  public async restoreFile(filePath: string, sha?: string): Promise<void> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      if (!sha) {
+        await fs.rm(this.resolvePath(filePath), { force: true });
+        return;
+      }
+      
+      const content = (await this.readBlobs([sha])).get(sha);
+      if (!content) {
+        throw new Error(`Blob ${sha} not found`);
+      }
+      
+      await fs.writeFile(this.resolvePath(filePath), content);
+    } catch (error) {
+      console.error(`Failed to restore file ${filePath}:`, error);
+      throw new Error(`Failed to restore file: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Get detailed diff for a specific file between two refs.
+   * Pass the old path when the file was renamed between the refs.
+   * Files over the size limits come back truncated, without chunks or contents,
+   * unless the load options ask to ignore the limits.
+   */
+  public async getFileDiff(
+    baseRef: GitReference, 
+    compareRef: GitReference, 
+    filePath: string,
+    options: ComparisonOptions = {},
+    oldFilePath: string = filePath,
+    loadOptions: FileDiffLoadOptions = {}
+  ): Promise<FileDiff> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      [baseRef, compareRef] = await this.resolveRefs(baseRef, compareRef, options);
+      
+      if (options.mode === ComparisonMode.COMBINED) {
+        return await this.getCombinedFileDiff(compareRef, filePath, options, loadOptions);
+      }
+      
+      const diffArgs = this.getDiffArgs(baseRef, compareRef);
+      const pathArgs = this.getPathArgs(filePath, oldFilePath);
+      const config = vscode.workspace.getConfiguration('intellidiff');
+      
+      const diffOptionArgs = [
+        ...this.getAlgorithmArgs(options),
+        ...this.getWhitespaceArgs(options)
+      ];
+      
+      // One call gives the status, the blob names, the binary flag and the line counts
+      const entries = await this.getRawDiff([...diffOptionArgs, ...diffArgs, ...pathArgs]);
+      const entry = entries.find(e => e.newPath === filePath) || entries[0];
+      
+      if (!entry) {
+        throw new Error(`No diff found for file: ${filePath}`);
+      }
+      
+      const fileDiff: FileDiff = {
+        oldPath: entry.oldPath,
+        newPath: entry.newPath,
+        status: this.mapGitStatusToFileStatus(entry.status),
+        isBinary: entry.isBinary,
+        chunks: [],
+        additions: entry.additions,
+        deletions: entry.deletions
+      };
+      
+      // For binary files, we just return basic info without chunks
+      if (entry.isBinary) {
+        return fileDiff;
+      }
+      
+      const maxChangedLines = config.get<number>('maxChangedLines', 5000);
+      if (!loadOptions.ignoreSizeLimits && entry.additions + entry.deletions > maxChangedLines) {
+        return { ...fileDiff, truncated: true };
+      }
+      
+      const [oldBlob, newBlob] = await this.readEntryContents(entry);
+      
+      const maxFileSize = config.get<number>('maxFileSize', 1024 * 1024);
+      if (!loadOptions.ignoreSizeLimits &&
+          Math.max(oldBlob?.length || 0, newBlob?.length || 0) > maxFileSize) {
+        return { ...fileDiff, truncated: true };
+      }
+      
+      let oldContent = oldBlob?.toString('utf-8');
+      let newContent = newBlob?.toString('utf-8');
+      
+      // Keep the contents sent for analysis consistent with the chunks
+      if (options.ignoreLineEndings) {
+        oldContent = oldContent?.replace(/\r\n/g, '\n');
+        newContent = newContent?.replace(/\r\n/g, '\n');
+      }
+      
+      // Context as long as the longer version covers the whole file
+      const fileLength = Math.max(countLines(oldContent), countLines(newContent));
+      const contextLines = loadOptions.fullContext
+        ? fileLength
+        : Math.max(0, loadOptions.contextLines ?? config.get<number>('diffContextLines', 3));
+      
+      // A file whose only changes are ignored whitespace has nothing to parse
+      if (entry.hasStats) {
+        const diffOutput = await this.git.diff([
+          `-U${contextLines}`,
+          ...diffOptionArgs,
+          ...diffArgs,
+          ...pathArgs
+        ]);
+        
+        const parsedDiff = parseGitDiff(diffOutput);
+        const parsedFile = parsedDiff.find(d => d.newPath === filePath) || parsedDiff[0];
+        fileDiff.chunks = parsedFile ? parsedFile.chunks : [];
+      }
+      
+      // Moved blocks are taken out first so they are not paired up as modified lines
+      if (config.get<boolean>('detectMovedCode', true)) {
+        const otherDiffs = await this.getComparisonChanges(diffArgs, options);
+        detectMovedCode(
+          fileDiff,
+          otherDiffs.filter(d => d.newPath !== fileDiff.newPath || d.oldPath !== fileDiff.oldPath),
+          {
+            minLines: config.get<number>('movedCodeMinLines', 3),
+            ignoreWhitespace: !!options.ignoreWhitespaceInMoves
+          }
+        );
+      }
+      
+      addInlineSegments(fileDiff.chunks, options.inlineGranularity);
+      
+      return {
+        ...fileDiff,
+        oldContent,
+        newContent,
+        contextLines,
+        fullContext: contextLines >= fileLength,
+        oldBlobId: getBlobId(entry.oldSha, oldBlob),
+        newBlobId: getBlobId(entry.newSha, newBlob)
+      };
+    } catch (error) {
+      console.error(`Failed to get diff for file ${filePath}:`, error);
+      throw new Error(`Failed to get diff for file: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Get the files of a merge commit's combined diff. Git leaves out the files
+   * the merge took unchanged from one of its parents, so only files that
+   * differ from every parent are listed.
+   */
+  private async getCombinedFiles(mergeRef: GitReference, options: ComparisonOptions): Promise<DiffFile[]> {
+    const fileDiffs = parseGitDiff(
+      await this.getCombinedDiff(mergeRef, options, this.getPathFilterArgs(options))
+    );
+    
+    return fileDiffs.map(fileDiff => {
+      const changes = fileDiff.chunks.reduce((all, chunk) => all.concat(chunk.changes), [] as DiffChange[]);
+      return {
+        oldPath: fileDiff.oldPath,
+        newPath: fileDiff.newPath,
+        status: fileDiff.status,
+        additions: changes.filter(change => change.type === ChangeType.ADD).length,
+        deletions: changes.filter(change => change.type === ChangeType.DELETE).length,
+        isBinary: fileDiff.isBinary,
+        evilMergeLines: changes.filter(change => change.isEvilMerge).length
+      };
+    });
+  }
+  
+  /**
+   * Get the combined diff of one file of a merge commit. The first parent
+   * stands in as the old side for the contents and line numbers, while the
+   * chunks mark the lines of every parent. Moved code is not detected, and
+   * lines are not paired up for inline segments, as the deleted lines of a
+   * combined chunk may come from different parents.
+   */
+  private async getCombinedFileDiff(
+    mergeRef: GitReference,
+    filePath: string,
+    options: ComparisonOptions,
+    loadOptions: FileDiffLoadOptions
+  ): Promise<FileDiff> {
+    const config = vscode.workspace.getConfiguration('intellidiff');
+    const merge = this.getRefString(mergeRef);
+    const parents = await this.getParents(mergeRef);
+    
+    // "<rev>:<path>" names the file's blob in a revision
+    const readSha = (revision: string) =>
+      this.runGit(['rev-parse', '--verify', '--quiet', `${revision}:${filePath}`])
+        .then(output => output.toString().trim(), () => undefined);
+    const [newSha, ...parentShas] = await Promise.all([merge, ...parents].map(readSha));
+    const oldSha = parentShas[0];
+    
+    const blobs = await this.readBlobs([oldSha, newSha].filter((sha): sha is string => !!sha));
+    const oldBlob = oldSha ? blobs.get(oldSha) : undefined;
+    const newBlob = newSha ? blobs.get(newSha) : undefined;
+    
+    const maxFileSize = config.get<number>('maxFileSize', 1024 * 1024);
+    const isTooLarge = !loadOptions.ignoreSizeLimits &&
+      Math.max(oldBlob?.length || 0, newBlob?.length || 0) > maxFileSize;
+    
+    let oldContent = oldBlob?.toString('utf-8');
+    let newContent = newBlob?.toString('utf-8');
+    
+    // Keep the contents sent for analysis consistent with the chunks
+    if (options.ignoreLineEndings) {
+      oldContent = oldContent?.replace(/\r\n/g, '\n');
+      newContent = newContent?.replace(/\r\n/g, '\n');
+    }
+    
+    // Context as long as the longer version covers the whole file
+    const fileLength = Math.max(countLines(oldContent), countLines(newContent));
+    const contextLines = loadOptions.fullContext
+      ? fileLength
+      : Math.max(0, loadOptions.contextLines ?? config.get<number>('diffContextLines', 3));
+    
+    const [parsedFile] = parseGitDiff(
+      await this.getCombinedDiff(mergeRef, options, ['--', filePath], contextLines)
+    );
+    
+    // A file the merge took as it was in one parent has no combined diff
+    const fileDiff: FileDiff = {
+      ...(parsedFile || {
+        oldPath: filePath,
+        newPath: filePath,
+        status: FileStatus.MODIFIED,
+        isBinary: false,
+        chunks: []
+      }),
+      parentCount: parents.length,
+      parentBlobIds: parentShas,
+      oldBlobId: oldSha,
+      newBlobId: newSha
+    };
+    
+    const changes = fileDiff.chunks.reduce((all, chunk) => all.concat(chunk.changes), [] as DiffChange[]);
+    fileDiff.additions = changes.filter(change => change.type === ChangeType.ADD).length;
+    fileDiff.deletions = changes.filter(change => change.type === ChangeType.DELETE).length;
+    
+    if (fileDiff.isBinary) {
+      return { ...fileDiff, chunks: [] };
+    }
+    
+    const maxChangedLines = config.get<number>('maxChangedLines', 5000);
+    if (isTooLarge ||
+        (!loadOptions.ignoreSizeLimits && fileDiff.additions + fileDiff.deletions > maxChangedLines)) {
+      return { ...fileDiff, chunks: [], truncated: true };
+    }
+    
+    return {
+      ...fileDiff,
+      oldContent,
+      newContent,
+      contextLines,
+      fullContext: contextLines >= fileLength
+    };
+  }
+  
+  /**
+   * Run `git diff --cc` for a merge commit against all its parents.
+   * Without context lines, git's default of three is used.
+   */
+  private async getCombinedDiff(
+    mergeRef: GitReference,
+    options: ComparisonOptions,
+    pathArgs: string[],
+    contextLines?: number
+  ): Promise<string> {
+    const merge = this.getRefString(mergeRef);
+    
+    // "<merge>^@" stands for all parents of the merge
+    const output = await this.runGit([
+      'diff',
+      '--cc',
+      ...(contextLines !== undefined ? [`-U${contextLines}`] : []),
+      ...this.getAlgorithmArgs(options),
+      ...this.getWhitespaceArgs(options),
+      merge,
+      `${merge}^@`,
+      ...pathArgs
+    ]);
+    return output.toString('utf-8');
+  }
+  
+  /**
+   * Forget the changed lines kept for move detection, e.g. when the working tree,
+   * the index or a branch changed under the comparison
+   */
+  public clearComparisonChanges(): void {
+    this.comparisonChanges = undefined;
+  }
+  
+  /**
+   * Get the changed lines of every file in a comparison, without context,
+   * to find code that moved between files.
+   * The result is kept until the next call to compareRefs or clearComparisonChanges,
+   * so selecting files of the same comparison runs the diff only once.
+   */
+  private async getComparisonChanges(diffArgs: string[], options: ComparisonOptions): Promise<FileDiff[]> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    const args = [
+      '-U0',
+      ...this.getAlgorithmArgs(options),
+      ...this.getWhitespaceArgs(options),
+      ...this.getDetectionArgs(),
+      ...diffArgs,
+      ...this.getPathFilterArgs(options)
+    ];
+    const key = `${this.activeRoot}\0${args.join('\0')}`;
+    
+    if (this.comparisonChanges?.key === key) {
+      return this.comparisonChanges.diffs;
+    }
+    
+    const diffs = this.git.diff(args)
+      .then(diffOutput => parseGitDiff(diffOutput))
+      .catch(error => {
+        console.error('Failed to get comparison changes:', error);
+        return [] as FileDiff[];
+      });
+    
+    this.comparisonChanges = { key, diffs };
+    return diffs;
+  }
+  
+  /**
+   * Get binary file contents for both versions.
+   * Pass the old path when the file was renamed between the refs.
+   */
+  public async getBinaryFilesContent(
+    baseRef: GitReference,
+    compareRef: GitReference,
+    filePath: string,
+    options: ComparisonOptions = {},
+    oldFilePath: string = filePath
+  ): Promise<{ oldContent: Buffer | null, newContent: Buffer | null }> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    try {
+      [baseRef, compareRef] = await this.resolveRefs(baseRef, compareRef, options);
+      const entries = await this.getRawDiff([
+        ...this.getDiffArgs(baseRef, compareRef),
+        ...this.getPathArgs(filePath, oldFilePath)
+      ]);
+      const entry = entries.find(e => e.newPath === filePath) || entries[0];
+      
+      if (!entry) {
+        return { oldContent: null, newContent: null };
+      }
+      
+      const [oldContent, newContent] = await this.readEntryContents(entry);
+      return { oldContent: oldContent || null, newContent: newContent || null };
+    } catch (error) {
+      console.error(`Failed to get binary content for file ${filePath}:`, error);
+      throw new Error(`Failed to get binary content for file: ${filePath}`);
+    }
+  }
+  
+  /**
+   * Run `git diff --raw --numstat` and pair each file's raw record with its line counts
+   */
+  private async getRawDiff(args: string[]): Promise<RawDiffEntry[]> {
+    if (!this.git) {
+      throw new Error('Git is not initialized');
+    }
+    
+    // -z keeps paths unquoted and NUL-separated
+    const diffOutput = await this.git.diff(['--raw', '--numstat', '-z', '--no-abbrev', ...args]);
+    
+    const entries: RawDiffEntry[] = [];
+    const entriesByPaths = new Map<string, RawDiffEntry>();
+    const fields = diffOutput.split('\0');
+    
+    for (let i = 0; i < fields.length - 1; i++) {
+      const field = fields[i];
+      
+      if (field.startsWith(':')) {
+        // ":<old mode> <new mode> <old sha> <new sha> <status>", then the path,
+        // or the old and new path for renames and copies
+        const [, , oldSha, newSha, status] = field.split(' ');
+        const oldPath = fields[++i];
+        const newPath = /^[RC]/.test(status) ? fields[++i] : oldPath;
+        
+        // An unmerged path is listed once as unmerged and again with the blobs
+        // of the "ours" stage; both records describe the same file
+        const unmerged = entriesByPaths.get(`${oldPath}\0${newPath}`);
+        if (unmerged?.status === 'U') {
+          unmerged.oldSha = oldSha;
+          unmerged.newSha = newSha;
+          continue;
+        }
+        
+        const entry: RawDiffEntry = {
+          oldPath,
+          newPath,
+          status,
+          oldSha,
+          newSha,
+          similarity: /^[RC]/.test(status) ? parseInt(status.substring(1), 10) : undefined,
+          isBinary: false,
+          additions: 0,
+          deletions: 0,
+          hasStats: false
+        };
+        entries.push(entry);
+        entriesByPaths.set(`${oldPath}\0${newPath}`, entry);
+        continue;
+      }
+      
+      // "<additions>\t<deletions>\t<path>"; renames and copies leave the path
+      // empty and follow with old and new path
+      const [additions, deletions, ...rest] = field.split('\t');
+      const filePath = rest.join('\t');
+      const oldPath = filePath || fields[++i];
+      const newPath = filePath || fields[++i];
+      
+      const entry = entriesByPaths.get(`${oldPath}\0${newPath}`);
+      if (!entry) {
+        continue;
+      }
+      
+      entry.hasStats = true;
+      
+      // Binary files are represented with '-' in numstat
+      if (additions === '-' && deletions === '-') {
+        entry.isBinary = true;
+      } else {
+        entry.additions = parseInt(additions, 10);
+        entry.deletions = parseInt(deletions, 10);
+      }
+    }
+    
+    return entries;
+  }
+  
+  /**
+   * Read the old and new contents of a file in a raw diff.
+   * A side without a blob is the working tree, unless the file was added or deleted there.
+   */
+  private async readEntryContents(entry: RawDiffEntry): Promise<[Buffer | undefined, Buffer | undefined]> {
+    const status = this.mapGitStatusToFileStatus(entry.status);
+    const blobs = await this.readBlobs(
+      [entry.oldSha, entry.newSha].filter(sha => !NULL_SHA_PATTERN.test(sha))
+    );
+    
+    const readSide = async (sha: string, filePath: string, absent: FileStatus): Promise<Buffer | undefined> => {
+      if (!NULL_SHA_PATTERN.test(sha)) {
+        return blobs.get(sha);
+      }
+      
+      if (status === absent) {
+        return undefined;
+      }
+      
+      try {
+        return await fs.readFile(this.resolvePath(filePath));
+      } catch (err) {
+        // File might not exist in working tree
+        return undefined;
+      }
+    };
+    
+    return Promise.all([
+      readSide(entry.oldSha, entry.oldPath, FileStatus.ADDED),
+      readSide(entry.newSha, entry.newPath, FileStatus.DELETED)
+    ]);
+  }
+  
+  /**
+   * Read blobs by object name with a single `git cat-file --batch` process.
+   * Blobs read before are served from the cache; missing objects are left out.
+   */
+  private async readBlobs(shas: string[]): Promise<Map<string, Buffer>> {
+    const blobs = new Map<string, Buffer>();
+    const toRead = new Set<string>();
+    
+    for (const sha of shas) {
+      const cached = this.blobCache.get(sha);
+      if (cached) {
+        blobs.set(sha, cached);
+      } else {
+        toRead.add(sha);
+      }
+    }
+    
+    if (toRead.size === 0) {
+      return blobs;
+    }
+    
+    const output = await this.runGit(['cat-file', '--batch'], Array.from(toRead).join('\n') + '\n');
+    
+    // Each object is "<sha> <type> <size>\n<content>\n", or "<sha> missing\n"
+    let offset = 0;
+    while (offset < output.length) {
+      const headerEnd = output.indexOf(0x0a, offset);
+      if (headerEnd < 0) {
+        break;
+      }
+      
+      const [sha, type, size] = output.toString('utf-8', offset, headerEnd).split(' ');
+      offset = headerEnd + 1;
+      
+      if (type === 'missing') {
+        continue;
+      }
+      
+      const length = parseInt(size, 10);
+      // Copy the content so the cache does not keep the whole output alive
+      const content = Buffer.from(output.subarray(offset, offset + length));
+      offset += length + 1;
+      
+      this.blobCache.set(sha, content);
+      blobs.set(sha, content);
+    }
+    
+    return blobs;
+  }
+  
+  /**
+   * Run git in the active repository with input on stdin and return its output.
+   * Used where simple-git cannot pass input or a per-call environment.
+   */
+  private runGit(
+    args: string[],
+    input: string | Buffer = '',
+    env?: NodeJS.ProcessEnv,
+    isSuccess: (exitCode: number) => boolean = exitCode => exitCode === 0
+  ): Promise<Buffer> {
+    if (!this.activeRoot) {
+      return Promise.reject(new Error('Git is not initialized'));
+    }
+    
+    const cwd = this.activeRoot;
+    
+    return new Promise<Buffer>((resolve, reject) => {
+      const child = spawn('git', args, { cwd, env });
+      const parts: Buffer[] = [];
+      const errorParts: Buffer[] = [];
+      
+      child.stdout.on('data', (data: Buffer) => parts.push(data));
+      child.stderr.on('data', (data: Buffer) => errorParts.push(data));
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code !== null && isSuccess(code)) {
+          resolve(Buffer.concat(parts));
+        } else {
+          const stderr = Buffer.concat(errorParts).toString('utf-8').trim();
+          reject(new Error(`git ${args[0]} exited with code ${code}${stderr ? `: ${stderr}` : ''}`));
+        }
+      });
+      child.stdin.end(input);
+    });
+  }
+  
+  /**
+   * Merge three versions of a file with `git merge-file` in the diff3 style,
+   * which keeps the base lines of every conflict between its markers.
+   * The labels name ours, base and theirs in the markers.
+   */
+  private async mergeStages(
+    base: string,
+    ours: string,
+    theirs: string,
+    labels: string[] = ['ours', 'base', 'theirs']
+  ): Promise<string> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'intellidiff-'));
+    
+    try {
+      const files = ['ours', 'base', 'theirs'].map(name => path.join(tempDir, name));
+      await Promise.all([ours, base, theirs].map((content, i) => fs.writeFile(files[i], content)));
+      
+      // The exit code is the number of conflicts; only negative codes are errors
+      const output = await this.runGit(
+        ['merge-file', '-p', '--diff3', ...labels.flatMap(label => ['-L', label]), ...files],
+        '',
+        undefined,
+        exitCode => exitCode < 128
+      );
+      return output.toString('utf-8');
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+  
+  /**
+   * Get the `git diff` pathspec for a file.
+   * A renamed or copied file is diffed across both paths so git pairs them up;
+   * an unmodified copy source is only considered with --find-copies-harder.
+   */
+  private getPathArgs(filePath: string, oldFilePath: string): string[] {
+    return oldFilePath === filePath
+      ? ['--', filePath]
+      : [...this.getDetectionArgs(), '--find-copies-harder', '--', oldFilePath, filePath];
+  }
+  
+  /**
+   * Map a simple-git log entry to a GitCommit
+   */
+  private mapLogEntry(commit: DefaultLogFields): GitCommit {
+    return {
+      hash: commit.hash,
+      shortHash: commit.hash.substring(0, 7),
+      author: commit.author_name,
+      date: new Date(commit.date),
+      message: commit.message
+    };
+  }
+  
+  /**
+   * Map Git status code to FileStatus enum
+   */
+  private mapGitStatusToFileStatus(status: string): FileStatus {
     switch (status.charAt(0)) {
       case 'A':
         return FileStatus.ADDED;
@@ -462,28 +1755,218 @@ export class GitService {
         return FileStatus.DELETED;
       case 'R':
         return FileStatus.RENAMED;
+      case 'C':
+        return FileStatus.COPIED;
+      case 'U':
+        return FileStatus.CONFLICTED;
       case 'M':
       default:
         return FileStatus.MODIFIED;
     }
   }
   
+  /**
+   * Get the `git diff` flag for the diff algorithm of a comparison
+   */
+  private getAlgorithmArgs(options: ComparisonOptions): string[] {
+    return options.algorithm ? [`--diff-algorithm=${options.algorithm}`] : [];
+  }
+  
+  /**
+   * Get the `git diff` flags for the whitespace options of a comparison
+   */
+  private getWhitespaceArgs(options: ComparisonOptions): string[] {
+    const args: string[] = [];
+    
+    if (options.ignoreAllWhitespace) {
+      args.push('--ignore-all-space');
+    }
+    if (options.ignoreWhitespaceAmount) {
+      args.push('--ignore-space-change');
+    }
+    if (options.ignoreBlankLines) {
+      args.push('--ignore-blank-lines');
+    }
+    if (options.ignoreLineEndings) {
+      args.push('--ignore-cr-at-eol');
+    }
+    
+    return args;
+  }
+  
+  /**
+   * Get the pathspecs that limit a comparison to its path filter.
+   * The workspace's default excludes apply unless the comparison turns them off.
+   */
+  private getPathFilterArgs(options: ComparisonOptions): string[] {
+    const defaultExcludes = options.ignoreDefaultExcludes ? [] :
+      vscode.workspace.getConfiguration('intellidiff').get<string[]>('excludePaths', []);
+    
+    const pathspecs = getPathspecs(
+      options.includePaths || [],
+      [...(options.excludePaths || []), ...defaultExcludes]
+    );
+    
+    return pathspecs.length > 0 ? ['--', ...pathspecs] : [];
+  }
+  
+  /**
+   * Get the rename and copy detection flags from the user's settings.
+   * A threshold is the minimum similarity, in percent, for git to pair two paths.
+   */
+  private getDetectionArgs(): string[] {
+    const config = vscode.workspace.getConfiguration('intellidiff');
+    const renameThreshold = config.get<number>('renameThreshold', 50);
+    const copyThreshold = config.get<number>('copyThreshold', 50);
+    const detectCopies = config.get<boolean>('detectCopies', true);
+    
+    const args = [`--find-renames=${renameThreshold}%`];
+    if (detectCopies) {
+      args.push(`--find-copies=${copyThreshold}%`);
+    }
+    
+    return args;
+  }
+  
   /**
    * Convert GitReference to string representation for Git commands
    */
   private getRefString(ref: GitReference): string {
     switch (ref.type) {
       case GitReferenceType.COMMIT:
+      case GitReferenceType.STASH:
         return ref.id || ref.name;
       case GitReferenceType.BRANCH:
       case GitReferenceType.TAG:
         return ref.name;
       case GitReferenceType.WORKING_TREE:
-        return '';
       case GitReferenceType.STAGED:
-        return '--staged';
+        // Neither side is a revision; see getDiffArgs
+        return '';
       default:
         return ref.name;
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * Build the revision arguments for `git diff` so that the base reference is
+   * always the old side and the compare reference the new side.
+   * The index and the working tree are not revisions, so they are expressed
+   * with `--cached` and `-R` instead.
+   */
+  private getDiffArgs(baseRef: GitReference, compareRef: GitReference): string[] {
+    const baseStr = this.getRefString(baseRef);
+    const compareStr = this.getRefString(compareRef);
+    const baseIsRevision = this.isRevision(baseRef);
+    const compareIsRevision = this.isRevision(compareRef);
+    
+    if (baseIsRevision && compareIsRevision) {
+      return [baseStr, compareStr];
+    }
+    
+    if (baseIsRevision) {
+      // <rev> -> index or <rev> -> working tree
+      return compareRef.type === GitReferenceType.STAGED
+        ? ['--cached', baseStr]
+        : [baseStr];
+    }
+    
+    if (compareIsRevision) {
+      // index -> <rev> or working tree -> <rev>, reversed from the forms above
+      return baseRef.type === GitReferenceType.STAGED
+        ? ['-R', '--cached', compareStr]
+        : ['-R', compareStr];
+    }
+    
+    if (baseRef.type === compareRef.type) {
+      throw new Error(`Cannot compare ${baseRef.name} with itself`);
+    }
+    
+    // Plain `git diff` is index -> working tree
+    return baseRef.type === GitReferenceType.STAGED ? [] : ['-R'];
+  }
+  
+  /**
+   * Get the references a comparison actually diffs: the merge base in
+   * merge-base mode, and stashes as trees that include their untracked files
+   */
+  private async resolveRefs(
+    baseRef: GitReference,
+    compareRef: GitReference,
+    options: ComparisonOptions
+  ): Promise<[GitReference, GitReference]> {
+    baseRef = await this.resolveBaseRef(baseRef, compareRef, options);
+    return [await this.resolveStashRef(baseRef), await this.resolveStashRef(compareRef)];
+  }
+  
+  /**
+   * Get a reference to the full contents of a stash.
+   * The stash commit only holds tracked files; files stashed with -u are in
+   * its third parent, so both are combined into a tree through a temporary index.
+   */
+  private async resolveStashRef(ref: GitReference): Promise<GitReference> {
+    if (ref.type !== GitReferenceType.STASH || !ref.id) {
+      return ref;
+    }
+    
+    let tree = this.stashTrees.get(ref.id);
+    
+    if (!tree) {
+      const untrackedCommit = `${ref.id}^3`;
+      const hasUntracked = await this.runGit(['rev-parse', '--verify', '--quiet', untrackedCommit])
+        .then(() => true, () => false);
+      
+      if (!hasUntracked) {
+        return ref;
+      }
+      
+      const indexPath = path.resolve(
+        this.activeRoot!,
+        (await this.runGit(['rev-parse', '--git-path', 'intellidiff-stash-index'])).toString().trim()
+      );
+      const env = { ...process.env, GIT_INDEX_FILE: indexPath };
+      
+      try {
+        await this.runGit(['read-tree', ref.id], '', env);
+        const untrackedFiles = await this.runGit(['ls-tree', '-r', '-z', untrackedCommit]);
+        await this.runGit(['update-index', '-z', '--index-info'], untrackedFiles, env);
+        tree = (await this.runGit(['write-tree'], '', env)).toString().trim();
+      } finally {
+        await fs.unlink(indexPath).catch(() => undefined);
+      }
+      
+      this.stashTrees.set(ref.id, tree);
+    }
+    
+    return { ...ref, id: tree };
+  }
+  
+  /**
+   * Get the reference used as the old side of a comparison.
+   * In merge-base mode this is the commit both references branched from.
+   */
+  private async resolveBaseRef(
+    baseRef: GitReference,
+    compareRef: GitReference,
+    options: ComparisonOptions
+  ): Promise<GitReference> {
+    if (options.mode !== ComparisonMode.MERGE_BASE) {
+      return baseRef;
+    }
+    
+    const mergeBase = await this.getMergeBase(baseRef, compareRef);
+    return {
+      type: GitReferenceType.COMMIT,
+      name: mergeBase.substring(0, 7),
+      id: mergeBase
+    };
+  }
+  
+  /**
+   * Whether a reference names a commit rather than the index or working tree
+   */
+  private isRevision(ref: GitReference): boolean {
+    return ref.type !== GitReferenceType.WORKING_TREE &&
+      ref.type !== GitReferenceType.STAGED;
+  }
+}
@@ -253,6 +253,19 @@ def ask_question():
         print(f"Error in /ask: {str(e)}", file=sys.stderr)
         return jsonify({"error": str(e)}), 500
 
+@app.route('/resolve-conflict', methods=['POST'])
+def resolve_conflict():
+    try:
+        data = request.json
+        file_path = data.get('filePath')
+        hunks = data.get('hunks', [])
+        
+        analysis = analyzer.resolve_conflict(file_path, hunks)
+        return jsonify(analysis)
+    except Exception as e:
+        print(f"Error in /resolve-conflict: {str(e)}", file=sys.stderr)
+        return jsonify({"error": str(e)}), 500
+
 @app.route('/shutdown', methods=['POST'])
 def shutdown():
     func = request.environ.get('werkzeug.server.shutdown')
@@ -275,7 +288,7 @@ if __name__ == '__main__':
 import os
 import re
 import difflib
-from typing import Dict, List, Any, Optional
+from typing import Dict, List, Any, Optional, Tuple
 
 class CodeAnalyzer:
     def __init__(self):
@@ -324,7 +337,7 @@ class CodeAnalyzer:
         summary = self._generate_summary(file_path, old_content, new_content, chunks, change_analyses)
         
         # Identify potential issues and suggestions
-        issues = self._identify_issues(file_path, new_content, language, chunks)
+        issues = self._identify_issues(file_path, language, chunks)
         suggestions = self._generate_suggestions(language, file_path, old_content, new_content)
         
         return {
@@ -340,10 +353,8 @@ class CodeAnalyzer:
         if not chunk.get('changes'):
             return None
             
-        # Find the context of the changes
-        start_line = chunk.get('newStart', 0)
-        lines_count = chunk.get('newLines', 0)
-        end_line = start_line + lines_count - 1 if lines_count > 0 else start_line
+        # Lines of the new file the changes are on
+        start_line, end_line = self._changed_line_range(chunk)
         
         # Description based on the type of change
         added = sum(1 for change in chunk.get('changes', []) if change.get('type') == 'add')
@@ -359,11 +370,42 @@ class CodeAnalyzer:
             "endLine": end_line,
             "description": description,
             "impact": impact,
-            "codeContext": self._extract_code_context(chunk, new_content)
+            "codeContext": self._extract_code_context(start_line, end_line, new_content)
         }
 
+    def _changed_line_range(self, chunk: Dict[str, Any]) -> Tuple[int, int]:
+        """Get the first and last line of the new file touched by the added or deleted lines of a chunk.
+        Deleted lines have no line in the new file, so they are placed on the line that now follows them."""
+        changes = chunk.get('changes', [])
+        new_start = chunk.get('newStart', 0)
+        next_line = new_start if chunk.get('newLines', 0) > 0 else new_start + 1
+        changed_lines = []
+        
+        for change in changes:
+            line = change.get('newLineNumber')
+            if line is not None:
+                next_line = line + 1
+            else:
+                line = next_line
+            
+            if change.get('type') != 'normal':
+                changed_lines.append(line)
+        
+        if not changed_lines:
+            return new_start, new_start
+        
+        # Lines deleted at the end of the file are placed on its last line
+        last_line = max(new_start + chunk.get('newLines', 0) - 1, 1)
+        return min(changed_lines[0], last_line), min(changed_lines[-1], last_line)
+
     def _describe_changes(self, added: int, deleted: int, chunk: Dict[str, Any], language: str) -> str:
         """Generate a description of the changes."""
+        moves = self._describe_moves(chunk)
+        if moves:
+            if added > 0 or deleted > 0:
+                return f"{moves} Also {added} line additions and {deleted} line removals."
+            return moves
+        
         if added > 0 and deleted > 0:
             return f"Modified code section with {added} line additions and {deleted} line removals."
         elif added > 0:
@@ -373,6 +415,19 @@ class CodeAnalyzer:
         else:
             return "Changed code with equivalent additions and deletions."
 
+    def _describe_moves(self, chunk: Dict[str, Any]) -> str:
+        """Describe blocks of code moved into or out of a chunk."""
+        descriptions = []
+        for move in chunk.get('moves', []):
+            line_count = move.get('lineCount', 0)
+            location = f"{move.get('linkedPath')} line {move.get('linkedStartLine')}"
+            if move.get('direction') == 'in':
+                descriptions.append(f"Moved {line_count} lines here from {location}.")
+            else:
+                descriptions.append(f"Moved {line_count} lines from here to {location}.")
+        
+        return " ".join(descriptions)
+
     def _determine_impact(self, chunk: Dict[str, Any], language: str) -> str:
         """Determine the potential impact of the changes."""
         changes = chunk.get('changes', [])
@@ -397,14 +452,14 @@ class CodeAnalyzer:
         # Default impact message
         return "This change may affect application functionality."
 
-    def _extract_code_context(self, chunk: Dict[str, Any], content: str) -> str:
-        """Extract the context of the code changes."""
+    def _extract_code_context(self, start_line: int, end_line: int, content: str) -> str:
+        """Extract the changed lines of the new content, with a line of context on each side."""
         if not content:
             return ""
             
         content_lines = content.split('\\n')
-        start = max(0, chunk.get('newStart', 0) - 1)  # 0-indexed
-        end = min(len(content_lines), start + chunk.get('newLines', 0) + 2)
+        start = max(0, start_line - 2)  # 0-indexed, one line before the change
+        end = min(len(content_lines), end_line + 1)
         
         context_lines = content_lines[start:end]
         return '\\n'.join(context_lines)
@@ -415,15 +470,18 @@ class CodeAnalyzer:
         language = self.detect_language(file_path)
         file_name = os.path.basename(file_path)
         
-        # Calculate total lines added and removed
+        # Calculate total lines added, removed and moved in
         added = 0
         removed = 0
+        moved = 0
         for chunk in chunks:
             for change in chunk.get('changes', []):
                 if change.get('type') == 'add':
                     added += 1
                 elif change.get('type') == 'delete':
                     removed += 1
+                elif change.get('type') == 'moved_in':
+                    moved += 1
         
         # Simple semantic analysis based on language and changes
         semantic_changes = []
@@ -455,36 +513,46 @@ class CodeAnalyzer:
         # Build summary
         summary = f"File {file_name} was modified with {added} line additions and {removed} line removals across {total_chunks} section(s)."
         
+        if moved:
+            summary += f" {moved} line(s) were moved rather than rewritten."
+        
         if semantic_changes:
             summary += " " + " ".join(semantic_changes)
         
         return summary
 
-    def _identify_issues(self, file_path: str, content: str, language: str, chunks: List[Dict[str, Any]]) -> List[str]:
-        """Identify potential issues in the code changes."""
-        issues = []
-        
+    def _identify_issues(self, file_path: str, language: str, chunks: List[Dict[str, Any]]) -> List[Dict[str, Any]]:
+        """Identify potential issues in the added lines, each pointing at the first line it was found on."""
         # Simple static analysis based on language
-        if not content:
-            return issues
-            
         if language == 'javascript' or language == 'typescript':
-            # Check for console.log statements
-            if 'console.log' in content:
-                issues.append("Debug statements (console.log) found, consider removing them before production.")
-                
-            # Check for TODO comments
-            if 'TODO' in content:
-                issues.append("TODO comments found, consider addressing them.")
-                
+            checks = [
+                (lambda content: 'console.log' in content, "Debug statements (console.log)", "consider removing them before production."),
+                (lambda content: 'TODO' in content, "TODO comments", "consider addressing them.")
+            ]
         elif language == 'python':
-            # Check for print statements
-            if re.search(r'\\bprint\\(', content):
-                issues.append("Print statements found, consider replacing with proper logging.")
-                
-            # Check for TODO comments
-            if '# TODO' in content:
-                issues.append("TODO comments found, consider addressing them.")
+            checks = [
+                (lambda content: re.search(r'\\bprint\\(', content), "Print statements", "consider replacing them with proper logging."),
+                (lambda content: '# TODO' in content, "TODO comments", "consider addressing them.")
+            ]
+        else:
+            return []
+        
+        added_lines = [
+            (change.get('newLineNumber'), change.get('content', ''))
+            for chunk in chunks
+            for change in chunk.get('changes', [])
+            if change.get('type') == 'add'
+        ]
+        
+        issues = []
+        for matches, name, advice in checks:
+            lines = [line for line, content in added_lines if matches(content)]
+            if lines:
+                line_list = ", ".join(str(line) for line in lines[:5]) + (", ..." if len(lines) > 5 else "")
+                issues.append({
+                    "line": lines[0],
+                    "description": f"{name} added on line(s) {line_list}; {advice}"
+                })
         
         return issues
 
@@ -545,7 +613,7 @@ class CodeAnalyzer:
             for change in chunk.get('changes', []):
                 if change.get('type') == 'add':
                     added += 1
-                elif change.get('type') == 'delete'):
+                elif change.get('type') == 'delete':
                     removed += 1
         
         description = f"This file has {added} line additions and {removed} line removals. "
@@ -553,8 +621,9 @@ class CodeAnalyzer:
         if chunks:
             description += "The changes include:"
             for i, chunk in enumerate(chunks[:3]):  # Limit to first 3 chunks
-                start_line = chunk.get('newStart', 0)
-                description += f"\\n- Change {i+1}: Around line {start_line}"
+                start_line, end_line = self._changed_line_range(chunk)
+                lines = f"line {start_line}" if start_line == end_line else f"lines {start_line}-{end_line}"
+                description += f"\\n- Change {i+1}: {lines}"
                 
             if len(chunks) > 3:
                 description += f"\\n- And {len(chunks) - 3} more changes."
@@ -620,6 +689,93 @@ class CodeAnalyzer:
         
         return "\\n".join(unique_impacts)
 
+    def resolve_conflict(self, file_path: str, hunks: List[Dict[str, Any]]) -> Dict[str, Any]:
+        """Explain both sides of each conflict hunk and propose a resolution."""
+        language = self.detect_language(file_path)
+        file_name = os.path.basename(file_path)
+        
+        resolutions = [self._resolve_hunk(i, hunk, language) for i, hunk in enumerate(hunks)]
+        manual = sum(1 for resolution in resolutions if resolution['strategy'] == 'manual')
+        
+        summary = f"{file_name} has {len(hunks)} conflict(s)."
+        if manual < len(hunks):
+            summary += f" {len(hunks) - manual} can be resolved by keeping one or both sides."
+        if manual:
+            summary += f" {manual} need(s) a manual edit because both sides rewrote the same lines."
+        
+        return {
+            "filePath": file_path,
+            "summary": summary,
+            "resolutions": resolutions
+        }
+
+    def _resolve_hunk(self, index: int, hunk: Dict[str, Any], language: str) -> Dict[str, Any]:
+        """Propose how to resolve a single conflict hunk."""
+        ours = hunk.get('ours', [])
+        theirs = hunk.get('theirs', [])
+        base = hunk.get('base')
+        
+        def significant(lines):
+            return [line.strip() for line in lines if line.strip()]
+        
+        resolution = {
+            "hunkIndex": index,
+            "oursIntent": self._describe_side_intent(base, ours, language),
+            "theirsIntent": self._describe_side_intent(base, theirs, language)
+        }
+        
+        if significant(ours) == significant(theirs):
+            resolution.update(strategy='ours', lines=ours,
+                explanation="Both sides made the same change apart from whitespace, so either can be kept.")
+        elif base is not None and significant(ours) == significant(base):
+            resolution.update(strategy='theirs', lines=theirs,
+                explanation="Only the incoming side changed these lines, so its version is kept.")
+        elif base is not None and significant(theirs) == significant(base):
+            resolution.update(strategy='ours', lines=ours,
+                explanation="Only the current side changed these lines, so its version is kept.")
+        elif base is not None and self._only_adds(base, ours) and self._only_adds(base, theirs):
+            theirs_added = [line for line in theirs if line not in base]
+            resolution.update(strategy='both', lines=ours + theirs_added,
+                explanation="Both sides only added lines, so the current side is kept followed by the incoming additions.")
+        else:
+            resolution.update(strategy='manual',
+                explanation="Both sides rewrote the same lines differently; combine them by hand.")
+        
+        return resolution
+
+    def _only_adds(self, base: List[str], side: List[str]) -> bool:
+        """Whether a side kept every base line in order and only added lines."""
+        matcher = difflib.SequenceMatcher(None, base, side)
+        return all(tag in ('equal', 'insert') for tag, _, _, _, _ in matcher.get_opcodes())
+
+    def _describe_side_intent(self, base: Optional[List[str]], side: List[str], language: str) -> str:
+        """Describe what one side of a conflict did relative to the common ancestor."""
+        if base is None:
+            description = f"Has {len(side)} line(s) here; the common ancestor is not available."
+        else:
+            matcher = difflib.SequenceMatcher(None, base, side)
+            added = sum(j2 - j1 for tag, _, _, j1, j2 in matcher.get_opcodes() if tag in ('insert', 'replace'))
+            removed = sum(i2 - i1 for tag, i1, i2, _, _ in matcher.get_opcodes() if tag in ('delete', 'replace'))
+            
+            if not side:
+                description = f"Deletes these {removed} line(s)."
+            elif not base:
+                description = f"Adds {added} line(s)."
+            else:
+                description = f"Adds {added} and removes {removed} line(s)."
+        
+        names = set()
+        for line in side:
+            if language == 'python':
+                names.update(re.findall(r'(?:def|class)\\s+([\\w_]+)', line))
+            else:
+                names.update(re.findall(r'(?:function|class)\\s+([\\w$]+)', line))
+        
+        if names:
+            description += f" Touches {', '.join(sorted(names))}."
+        
+        return description
+
     def _count_changed_lines(self, chunks: List[Dict[str, Any]]) -> str:
         """Count the number of changed lines."""
         added = 0
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitService } from './gitService';
+import { RepositoryChange, RepositoryChangeKind } from '../models/gitTypes';
+
+// How long to wait for more changes before reporting them, in milliseconds
+const DEBOUNCE_DELAY = 500;
+
+// Working tree paths checked against .gitignore per report; more are assumed to matter
+const MAX_IGNORE_CHECKS = 200;
+
+/**
+ * Changes collected for one repository until the next report
+ */
+interface PendingChange {
+  kinds: Set<RepositoryChangeKind>;
+  // Repository-relative paths of the changed working tree files
+  files: Set<string>;
+}
+
+/**
+ * Watches the HEAD, index, refs and working tree files of the workspace's
+ * repositories and reports what changed, debounced so that a commit or
+ * checkout, which touches many files, is reported once
+ */
+export class RepositoryWatcher implements vscode.Disposable {
+  private watchers: vscode.Disposable[] = [];
+  private pending: Map<string, PendingChange> = new Map();
+  private timer?: NodeJS.Timeout;
+  private readonly changeEmitter = new vscode.EventEmitter<RepositoryChange[]>();
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly gitService: GitService) {}
+
+  /**
+   * Watch the given repositories, replacing the ones watched before
+   */
+  public async watch(rootPaths: string[]): Promise<void> {
+    this.disposeWatchers();
+
+    for (const rootPath of rootPaths) {
+      try {
+        const { gitDir, commonDir } = await this.gitService.getGitDirectories(rootPath);
+        const isGitPath = (filePath: string) => isInside(filePath, gitDir) || isInside(filePath, commonDir);
+
+        this.addWatcher(new vscode.RelativePattern(gitDir, '{HEAD,index}'), uri => {
+          this.record(rootPath, path.basename(uri.fsPath) === 'index' ?
+            RepositoryChangeKind.INDEX :
+            RepositoryChangeKind.REFS);
+        });
+
+        this.addWatcher(new vscode.RelativePattern(commonDir, '{packed-refs,refs/**}'), () => {
+          this.record(rootPath, RepositoryChangeKind.REFS);
+        });
+
+        this.addWatcher(new vscode.RelativePattern(rootPath, '**/*'), uri => {
+          if (!isGitPath(uri.fsPath)) {
+            this.record(rootPath, RepositoryChangeKind.WORKING_TREE, path.relative(rootPath, uri.fsPath));
+          }
+        });
+      } catch (error) {
+        console.error(`Failed to watch repository ${rootPath}:`, error);
+      }
+    }
+  }
+
+  public dispose(): void {
+    this.disposeWatchers();
+    this.changeEmitter.dispose();
+  }
+
+  private addWatcher(pattern: vscode.RelativePattern, onChange: (uri: vscode.Uri) => void): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    watcher.onDidCreate(onChange);
+    watcher.onDidChange(onChange);
+    watcher.onDidDelete(onChange);
+    this.watchers.push(watcher);
+  }
+
+  private disposeWatchers(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers = [];
+    this.pending.clear();
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Remember a change and report it, with any that follow, once changes stop coming in
+   */
+  private record(rootPath: string, kind: RepositoryChangeKind, filePath?: string): void {
+    let change = this.pending.get(rootPath);
+    if (!change) {
+      change = { kinds: new Set(), files: new Set() };
+      this.pending.set(rootPath, change);
+    }
+
+    change.kinds.add(kind);
+    if (filePath) {
+      change.files.add(filePath);
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.report(), DEBOUNCE_DELAY);
+  }
+
+  /**
+   * Report the collected changes. Working tree changes only to files that
+   * git ignores, such as build output, are left out.
+   */
+  private async report(): Promise<void> {
+    const pending = this.pending;
+    this.pending = new Map();
+    this.timer = undefined;
+
+    const changes: RepositoryChange[] = [];
+
+    for (const [rootPath, change] of pending) {
+      if (change.kinds.has(RepositoryChangeKind.WORKING_TREE) && change.files.size <= MAX_IGNORE_CHECKS) {
+        const files = Array.from(change.files);
+        const ignored = await this.gitService.getIgnoredPaths(rootPath, files);
+
+        if (ignored.length === files.length) {
+          change.kinds.delete(RepositoryChangeKind.WORKING_TREE);
+        }
+      }
+
+      if (change.kinds.size > 0) {
+        changes.push({ rootPath, kinds: Array.from(change.kinds) });
+      }
+    }
+
+    if (changes.length > 0) {
+      this.changeEmitter.fire(changes);
+    }
+  }
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,20 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main() {
+  try {
+    // The folder containing the extension manifest package.json
+    const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+
+    // The test runner script, compiled from ./suite/index
+    const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+    // Download VS Code, unzip it and run the tests in it
+    await runTests({ extensionDevelopmentPath, extensionTestsPath });
+  } catch (err) {
+    console.error('Failed to run tests');
+    process.exit(1);
+  }
+}
+
+main();
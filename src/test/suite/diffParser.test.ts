@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseGitDiff } from '../../utils/diffParser';
+
+// Fixtures are read from the sources, as the compiler does not copy them to the output
+const FIXTURES_DIR = path.resolve(__dirname, '../../../src/test/fixtures/diffParser');
+
+/**
+ * Each <name>.diff fixture holds real git output; <name>.json holds the files it parses to
+ */
+suite('parseGitDiff', () => {
+  const fixtures = fs.readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.diff'));
+
+  for (const fixture of fixtures) {
+    test(fixture, () => {
+      const input = fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf-8');
+      const expected = JSON.parse(
+        fs.readFileSync(path.join(FIXTURES_DIR, fixture.replace(/\.diff$/, '.json')), 'utf-8')
+      );
+
+      // Compare as JSON so that fields the parser leaves unset match absent ones
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(parseGitDiff(input))), expected);
+    });
+  }
+
+  test('empty output has no files', () => {
+    assert.deepStrictEqual(parseGitDiff(''), []);
+  });
+
+  test('unquoted paths with spaces are split when both sides are the same', () => {
+    const [file] = parseGitDiff('diff --git a/a b/c.txt b/a b/c.txt\nold mode 100644\nnew mode 100755\n');
+
+    assert.strictEqual(file.oldPath, 'a b/c.txt');
+    assert.strictEqual(file.newPath, 'a b/c.txt');
+  });
+
+  test('quoted paths keep characters outside the BMP and escapes', () => {
+    const [file] = parseGitDiff('diff --git "a/\\360\\237\\230\\200 \\"q\\".txt" "b/\\360\\237\\230\\200 \\"q\\".txt"\nnew file mode 100644\n');
+
+    assert.strictEqual(file.newPath, '\u{1F600} "q".txt');
+  });
+});
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { ChangeType, FileDiff, MoveDirection } from '../../models/gitTypes';
+import { parseGitDiff } from '../../utils/diffParser';
+import { detectMovedCode } from '../../utils/moveDetector';
+
+const TOTAL = [
+  'function total(items) {',
+  '  return items.reduce(add, 0);',
+  '}'
+];
+
+/**
+ * Parse a diff of one file where `deleted` is removed from the top and
+ * `added` is inserted below a line that stays
+ */
+function parseMove(deleted: string[], added: string[]): FileDiff {
+  const [fileDiff] = parseGitDiff([
+    'diff --git a/a.js b/a.js',
+    '--- a/a.js',
+    '+++ b/a.js',
+    `@@ -1,${deleted.length + 1} +1,${added.length + 1} @@`,
+    ...deleted.map(line => `-${line}`),
+    ' const separator = true;',
+    ...added.map(line => `+${line}`),
+    ''
+  ].join('\n'));
+
+  return fileDiff;
+}
+
+function changeTypes(fileDiff: FileDiff): ChangeType[] {
+  return fileDiff.chunks.flatMap(chunk => chunk.changes.map(change => change.type));
+}
+
+suite('detectMovedCode', () => {
+  test('a block moved within a file is marked on both sides', () => {
+    const fileDiff = parseMove(TOTAL, TOTAL);
+    detectMovedCode(fileDiff, [], { minLines: 3, ignoreWhitespace: false });
+
+    assert.deepStrictEqual(changeTypes(fileDiff), [
+      ChangeType.MOVED_OUT, ChangeType.MOVED_OUT, ChangeType.MOVED_OUT,
+      ChangeType.NORMAL,
+      ChangeType.MOVED_IN, ChangeType.MOVED_IN, ChangeType.MOVED_IN
+    ]);
+    assert.deepStrictEqual(fileDiff.chunks[0].moves, [
+      { direction: MoveDirection.IN, startLine: 2, lineCount: 3, linkedPath: 'a.js', linkedStartLine: 1 },
+      { direction: MoveDirection.OUT, startLine: 1, lineCount: 3, linkedPath: 'a.js', linkedStartLine: 2 }
+    ]);
+  });
+
+  test('a block shorter than the minimum lines is not a move', () => {
+    const fileDiff = parseMove(TOTAL, TOTAL);
+    detectMovedCode(fileDiff, [], { minLines: 4, ignoreWhitespace: false });
+
+    assert.ok(changeTypes(fileDiff).every(type => type !== ChangeType.MOVED_IN && type !== ChangeType.MOVED_OUT));
+    assert.strictEqual(fileDiff.chunks[0].moves, undefined);
+  });
+
+  test('only the longest matching part of a changed block is moved', () => {
+    const fileDiff = parseMove(TOTAL, [...TOTAL, 'total(prices);']);
+    detectMovedCode(fileDiff, [], { minLines: 3, ignoreWhitespace: false });
+
+    assert.deepStrictEqual(changeTypes(fileDiff).slice(4), [
+      ChangeType.MOVED_IN, ChangeType.MOVED_IN, ChangeType.MOVED_IN, ChangeType.ADD
+    ]);
+  });
+
+  test('lines with too few letters and digits are not a move', () => {
+    const braces = ['  }', '}', '});'];
+    const fileDiff = parseMove(braces, braces);
+    detectMovedCode(fileDiff, [], { minLines: 1, ignoreWhitespace: false });
+
+    assert.strictEqual(fileDiff.chunks[0].moves, undefined);
+  });
+
+  test('a re-indented block is only a move when whitespace is ignored', () => {
+    const indented = TOTAL.map(line => `  ${line}`);
+
+    const exact = parseMove(TOTAL, indented);
+    detectMovedCode(exact, [], { minLines: 3, ignoreWhitespace: false });
+    assert.strictEqual(exact.chunks[0].moves, undefined);
+
+    const ignoringWhitespace = parseMove(TOTAL, indented);
+    detectMovedCode(ignoringWhitespace, [], { minLines: 3, ignoreWhitespace: true });
+    assert.strictEqual(ignoringWhitespace.chunks[0].moves?.length, 2);
+  });
+
+  test('a block moved from another file links to that file', () => {
+    const [source, target] = parseGitDiff([
+      'diff --git a/old.js b/old.js',
+      '--- a/old.js',
+      '+++ b/old.js',
+      '@@ -4,3 +3,0 @@',
+      ...TOTAL.map(line => `-${line}`),
+      'diff --git a/new.js b/new.js',
+      '--- a/new.js',
+      '+++ b/new.js',
+      '@@ -10,0 +11,3 @@',
+      ...TOTAL.map(line => `+${line}`),
+      ''
+    ].join('\n'));
+    detectMovedCode(target, [source], { minLines: 3, ignoreWhitespace: false });
+
+    assert.deepStrictEqual(target.chunks[0].moves, [
+      { direction: MoveDirection.IN, startLine: 11, lineCount: 3, linkedPath: 'old.js', linkedStartLine: 4 }
+    ]);
+    // Only the file passed in is marked; the other is marked when it is detected itself
+    assert.ok(source.chunks[0].changes.every(change => change.type === ChangeType.DELETE));
+  });
+});
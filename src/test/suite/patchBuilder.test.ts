@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HunkSelection } from '../../models/gitTypes';
+import { parseGitDiff } from '../../utils/diffParser';
+import { buildPatch } from '../../utils/patchBuilder';
+
+// Fixtures are read from the sources, as the compiler does not copy them to the output
+const FIXTURES_DIR = path.resolve(__dirname, '../../../src/test/fixtures/patchBuilder');
+
+interface PatchCase {
+  selections: HunkSelection[];
+  reverse?: boolean;
+}
+
+/**
+ * Each <name>.diff fixture holds real git output for file.txt going from <name>.old
+ * to <name>.new; <name>.json names the selections to build and <name>.<case>.patch
+ * holds the patch expected for each of them
+ */
+suite('buildPatch', () => {
+  const fixtures = fs.readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.json'));
+
+  for (const fixture of fixtures) {
+    const name = fixture.replace(/\.json$/, '');
+    const cases: Record<string, PatchCase> = JSON.parse(
+      fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf-8')
+    );
+
+    for (const [caseName, patchCase] of Object.entries(cases)) {
+      test(`${name}.${caseName}`, () => {
+        const [fileDiff] = parseGitDiff(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.diff`), 'utf-8'));
+        const patch = buildPatch(fileDiff, patchCase.selections, patchCase.reverse);
+        const expected = fs.readFileSync(path.join(FIXTURES_DIR, `${name}.${caseName}.patch`), 'utf-8');
+
+        assert.strictEqual(patch, expected);
+        assertApplies(name, patch, patchCase.reverse ?? false);
+      });
+    }
+  }
+
+  test('nothing selected gives an empty patch', () => {
+    const [fileDiff] = parseGitDiff(fs.readFileSync(path.join(FIXTURES_DIR, 'two-hunks.diff'), 'utf-8'));
+
+    assert.strictEqual(buildPatch(fileDiff, []), '');
+    assert.strictEqual(buildPatch(fileDiff, [{ chunkIndex: 0, lines: [] }]), '');
+  });
+});
+
+/**
+ * Check that git accepts a patch for the side of the fixture it applies to:
+ * the old file, or the new one when applied in reverse
+ */
+function assertApplies(name: string, patch: string, reverse: boolean): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intellidiff-patch-'));
+
+  try {
+    const source = path.join(FIXTURES_DIR, `${name}.${reverse ? 'new' : 'old'}`);
+    if (fs.existsSync(source)) {
+      fs.copyFileSync(source, path.join(dir, 'file.txt'));
+    }
+
+    const result = spawnSync('git', ['apply', '--check', ...(reverse ? ['-R'] : []), '-'], {
+      cwd: dir,
+      input: patch,
+      encoding: 'utf-8'
+    });
+    assert.strictEqual(result.status, 0, result.stderr);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
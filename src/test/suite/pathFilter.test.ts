@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getPathspecs, parsePatternList } from '../../utils/pathFilter';
+
+const FILES = [
+  'README.md',
+  'docs/api/index.md',
+  'src/extension.ts',
+  'src/utils/pathFilter.ts',
+  'src/utils/pathFilter.test.ts'
+];
+
+/**
+ * The pathspecs are only meaningful to git, so they are checked by listing
+ * which files of a small repository git matches with them
+ */
+suite('getPathspecs', () => {
+  let repoDir: string;
+
+  suiteSetup(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'intellidiff-pathspec-'));
+    execFileSync('git', ['init', '-q'], { cwd: repoDir });
+    for (const file of FILES) {
+      fs.mkdirSync(path.join(repoDir, path.dirname(file)), { recursive: true });
+      fs.writeFileSync(path.join(repoDir, file), '');
+    }
+    execFileSync('git', ['add', '-A'], { cwd: repoDir });
+  });
+
+  suiteTeardown(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  function matchedFiles(includePaths: string[], excludePaths: string[]): string[] {
+    const output = execFileSync('git', ['ls-files', '--', ...getPathspecs(includePaths, excludePaths)], {
+      cwd: repoDir,
+      encoding: 'utf-8'
+    });
+    return output.split('\n').filter(Boolean);
+  }
+
+  test('a directory matches everything below it', () => {
+    assert.deepStrictEqual(matchedFiles(['src'], []), [
+      'src/extension.ts',
+      'src/utils/pathFilter.test.ts',
+      'src/utils/pathFilter.ts'
+    ]);
+  });
+
+  test('a single star does not cross directories but a double star does', () => {
+    assert.deepStrictEqual(matchedFiles(['src/*.ts'], []), ['src/extension.ts']);
+    assert.deepStrictEqual(matchedFiles(['**/*.md'], []), ['README.md', 'docs/api/index.md']);
+  });
+
+  test('excludes take precedence over includes', () => {
+    assert.deepStrictEqual(matchedFiles(['src'], ['**/*.test.ts']), [
+      'src/extension.ts',
+      'src/utils/pathFilter.ts'
+    ]);
+    assert.deepStrictEqual(matchedFiles(['**/*.md'], ['docs']), ['README.md']);
+  });
+
+  test('excludes alone match everything else', () => {
+    assert.deepStrictEqual(matchedFiles([], ['src']), ['README.md', 'docs/api/index.md']);
+  });
+
+  test('pathspecs with magic are used as written', () => {
+    assert.deepStrictEqual(getPathspecs([':(icase)DOCS'], [':(icase)SRC']), [':(icase)DOCS', ':(exclude,icase)SRC']);
+    assert.deepStrictEqual(matchedFiles([':(icase)DOCS'], []), ['docs/api/index.md']);
+  });
+});
+
+suite('parsePatternList', () => {
+  test('patterns are trimmed and empty ones dropped', () => {
+    assert.deepStrictEqual(parsePatternList(' src/**/*.ts, ,docs ,'), ['src/**/*.ts', 'docs']);
+    assert.deepStrictEqual(parsePatternList(''), []);
+  });
+});
@@ -0,0 +1,72 @@
+import { ConflictHunk } from '../models/gitTypes';
+
+// Conflict markers as git writes them with the default marker size
+const OURS_MARKER = '<<<<<<<';
+const BASE_MARKER = '|||||||';
+const SEPARATOR_MARKER = '=======';
+const THEIRS_MARKER = '>>>>>>>';
+
+/**
+ * Find the conflict hunks in a file with conflict markers.
+ * Both the merge and the diff3 conflict styles are understood;
+ * unterminated hunks are ignored.
+ */
+export function parseConflictHunks(content: string): ConflictHunk[] {
+  const lines = content.split(/\r?\n/);
+  const hunks: ConflictHunk[] = [];
+  let hunk: ConflictHunk | undefined;
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+  lines.forEach((line, i) => {
+    if (isMarker(line, OURS_MARKER)) {
+      hunk = {
+        startLine: i + 1,
+        endLine: i + 1,
+        ours: [],
+        theirs: [],
+        oursLabel: getMarkerLabel(line),
+        theirsLabel: ''
+      };
+      section = 'ours';
+      return;
+    }
+
+    if (!hunk) {
+      return;
+    }
+
+    if (section === 'ours' && isMarker(line, BASE_MARKER)) {
+      hunk.base = [];
+      section = 'base';
+    } else if (section !== 'theirs' && line === SEPARATOR_MARKER) {
+      section = 'theirs';
+    } else if (section === 'theirs' && isMarker(line, THEIRS_MARKER)) {
+      hunk.endLine = i + 1;
+      hunk.theirsLabel = getMarkerLabel(line);
+      hunks.push(hunk);
+      hunk = undefined;
+    } else if (section === 'base') {
+      hunk.base!.push(line);
+    } else {
+      hunk[section].push(line);
+    }
+  });
+
+  return hunks;
+}
+
+/**
+ * Whether two hunks hold the same conflict, e.g. after the lines around them moved
+ */
+export function isSameConflict(a: ConflictHunk, b: ConflictHunk): boolean {
+  return a.ours.join('\n') === b.ours.join('\n') &&
+    a.theirs.join('\n') === b.theirs.join('\n');
+}
+
+function isMarker(line: string, marker: string): boolean {
+  return line === marker || line.startsWith(marker + ' ');
+}
+
+function getMarkerLabel(line: string): string {
+  return line.substring(OURS_MARKER.length).trim();
+}
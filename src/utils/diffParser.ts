@@ -1,131 +1,477 @@
-import { FileDiff, FileStatus, DiffChunk, DiffChange, ChangeType } from '../models/gitTypes';
+import { FileDiff, FileStatus, DiffChunk, DiffChange, ChangeType, ParentRange } from '../models/gitTypes';
+
+// Path git writes for the missing side of an added or deleted file
+const DEV_NULL = '/dev/null';
+
+// Characters git escapes with a backslash in quoted paths, besides octal bytes
+const ESCAPED_BYTES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  t: 0x09,
+  n: 0x0a,
+  v: 0x0b,
+  f: 0x0c,
+  r: 0x0d,
+  '"': 0x22,
+  '\\': 0x5c
+};
+
+/**
+ * A file being parsed, with the paths from each kind of header kept apart
+ * until the file ends, as later headers are more reliable than earlier ones
+ */
+interface ParsedFile {
+  fileDiff: FileDiff;
+  // Paths from the "diff --git" line, which are ambiguous when they hold spaces
+  gitPaths?: [string, string];
+  // Paths from the "---" and "+++" lines; /dev/null for a missing side
+  oldPath?: string;
+  newPath?: string;
+  // Paths from the "rename from/to" or "copy from/to" lines
+  sourcePath?: string;
+  targetPath?: string;
+}
 
 /**
- * Parse Git diff output into structured format
+ * Parse Git diff output into structured format.
+ * Understands git's extended headers (modes, renames, copies, similarity,
+ * index and binary lines), quoted paths, "\ No newline at end of file"
+ * markers, plain unified diffs without a "diff --git" line and the combined
+ * diffs git shows for merge commits ("diff --cc"). Lines outside of files
+ * and chunks, e.g. the mail headers of `git format-patch` output, are skipped.
  */
 export function parseGitDiff(diffOutput: string): FileDiff[] {
-  const results: FileDiff[] = [];
-  let currentFile: Partial<FileDiff> | null = null;
-  let currentChunk: Partial<DiffChunk> | null = null;
-  
-  // Split the diff output into lines
+  const files: ParsedFile[] = [];
+  let file: ParsedFile | undefined;
+  let chunk: DiffChunk | undefined;
+  // Lines of the current chunk still to come on each side, and the numbers of the next ones
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let oldLine = 0;
+  let newLine = 0;
+  // Lines of the current combined chunk still to come in each parent
+  let parentRemaining: number[] = [];
+  // Whether the extended headers of the current file are being read
+  let inHeaders = false;
+
   const lines = diffOutput.split('\n');
-  
+
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
-    
-    // File header: "diff --git a/file1.txt b/file2.txt"
-    if (line.startsWith('diff --git')) {
-      // Save previous file if exists
-      if (currentFile && currentFile.chunks) {
-        results.push(currentFile as FileDiff);
-      }
-      
-      // Start a new file
-      currentFile = {
-        oldPath: '',
-        newPath: '',
-        status: FileStatus.MODIFIED,
-        isBinary: false,
-        chunks: []
-      };
-      currentChunk = null;
-      
-      // Binary file check
-      const binaryCheck = lines.slice(i, i + 3).find(l => l.includes('Binary files'));
-      if (binaryCheck) {
-        currentFile.isBinary = true;
-        // Extract file paths from binary file line
-        const match = binaryCheck.match(/Binary files a\/(.*) and b\/(.*) differ/);
-        if (match) {
-          currentFile.oldPath = match[1];
-          currentFile.newPath = match[2];
+
+    // A combined chunk has a marker column per parent and ends once every parent and the merge are counted
+    if (chunk?.parents && (newRemaining > 0 || parentRemaining.some(count => count > 0))) {
+      const change = parseCombinedLine(line, chunk.parents.length);
+
+      if (change) {
+        const markers = change.parentMarkers!;
+        const inMerge = change.type !== ChangeType.DELETE;
+        // A merge line is in the parents whose column is blank, a removed line in those marked '-'
+        const parentMarker = inMerge ? ' ' : '-';
+
+        if (markers[0] === parentMarker) {
+          change.oldLineNumber = oldLine++;
+        }
+        if (inMerge) {
+          change.newLineNumber = newLine++;
+          newRemaining--;
         }
-        i += 2; // Skip binary file lines
+        parentRemaining = parentRemaining.map((count, parent) => markers[parent] === parentMarker ? count - 1 : count);
+
+        chunk.changes.push(change);
         continue;
       }
     }
-    
-    // File paths: "--- a/file1.txt" and "+++ b/file2.txt"
-    else if (line.startsWith('--- a/') && currentFile) {
-      currentFile.oldPath = line.substring(6);
-    }
-    else if (line.startsWith('+++ b/') && currentFile) {
-      currentFile.newPath = line.substring(6);
-      
-      // Check if this is a new file or deleted file
-      if (currentFile.oldPath === '/dev/null') {
-        currentFile.status = FileStatus.ADDED;
-        currentFile.oldPath = currentFile.newPath;
-      } else if (currentFile.newPath === '/dev/null') {
-        currentFile.status = FileStatus.DELETED;
-        currentFile.newPath = currentFile.oldPath;
+
+    // Chunk lines are counted, so content that looks like a header is still content
+    if (chunk && !chunk.parents && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line.charAt(0);
+
+      if (marker === '+') {
+        chunk.changes.push({ type: ChangeType.ADD, content: line.substring(1), newLineNumber: newLine++ });
+        newRemaining--;
+        continue;
+      }
+      if (marker === '-') {
+        chunk.changes.push({ type: ChangeType.DELETE, content: line.substring(1), oldLineNumber: oldLine++ });
+        oldRemaining--;
+        continue;
+      }
+      // Some tools strip the space of empty context lines
+      if (marker === ' ' || line === '') {
+        chunk.changes.push({
+          type: ChangeType.NORMAL,
+          content: line.substring(1),
+          oldLineNumber: oldLine++,
+          newLineNumber: newLine++
+        });
+        oldRemaining--;
+        newRemaining--;
+        continue;
       }
     }
-    
-    // Chunk header: "@@ -1,5 +2,5 @@"
-    else if (line.startsWith('@@') && currentFile) {
-      // Save previous chunk if exists
-      if (currentChunk && currentChunk.changes) {
-        currentFile.chunks = currentFile.chunks || [];
-        currentFile.chunks.push(currentChunk as DiffChunk);
+
+    // "\ No newline at end of file" follows the line it belongs to
+    if (line.startsWith('\\')) {
+      const lastChange = chunk?.changes[chunk.changes.length - 1];
+      if (lastChange) {
+        lastChange.noNewline = true;
       }
-      
-      // Parse chunk header
-      const match = line.match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-      
-      if (match) {
-        const [_, oldStart, oldLines, newStart, newLines] = match.map(v => parseInt(v || '1', 10));
-        
-        currentChunk = {
-          oldStart,
-          oldLines: oldLines || 0,
-          newStart,
-          newLines: newLines || 0,
-          changes: []
-        };
-      } else {
-        // Malformed chunk header
-        currentChunk = null;
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      file = startFile(files, parseGitPaths(line.substring('diff --git '.length)));
+      chunk = undefined;
+      inHeaders = true;
+      continue;
+    }
+
+    // A combined diff names the path once: "diff --cc <path>" or "diff --combined <path>"
+    const combinedHeader = line.match(/^diff --(?:cc|combined) (.*)$/);
+    if (combinedHeader) {
+      const combinedPath = unquotePath(combinedHeader[1]);
+      file = startFile(files, [combinedPath, combinedPath]);
+      chunk = undefined;
+      inHeaders = true;
+      continue;
+    }
+
+    // A plain unified diff starts with the "---" and "+++" lines
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      if (!file || !inHeaders) {
+        file = startFile(files);
       }
+      file.oldPath = parseHeaderPath(line.substring(4), 'a/');
+      file.newPath = parseHeaderPath(lines[i + 1].substring(4), 'b/');
+      chunk = undefined;
+      inHeaders = false;
+      i++;
+      continue;
     }
-    
-    // Content lines
-    else if (currentChunk && currentFile && !currentFile.isBinary) {
-      // Ensure changes array exists
-      currentChunk.changes = currentChunk.changes || [];
-      
-      if (line.startsWith('+')) {
-        // Added line
-        currentChunk.changes.push({
-          type: ChangeType.ADD,
-          content: line.substring(1)
-        });
-      } else if (line.startsWith('-')) {
-        // Deleted line
-        currentChunk.changes.push({
-          type: ChangeType.DELETE,
-          content: line.substring(1)
-        });
-      } else if (line.startsWith(' ')) {
-        // Unchanged line
-        currentChunk.changes.push({
-          type: ChangeType.NORMAL,
-          content: line.substring(1)
-        });
+
+    if (line.startsWith('@@') && file) {
+      chunk = parseChunkHeader(line);
+      if (chunk) {
+        file.fileDiff.chunks.push(chunk);
+        oldRemaining = chunk.oldLines;
+        newRemaining = chunk.newLines;
+        oldLine = chunk.oldStart;
+        newLine = chunk.newStart;
+        parentRemaining = chunk.parents?.map(parent => parent.lines) ?? [];
+        if (chunk.parents) {
+          file.fileDiff.parentCount = chunk.parents.length;
+        }
+      }
+      inHeaders = false;
+      continue;
+    }
+
+    if (file && inHeaders) {
+      parseExtendedHeader(file, line);
+    }
+  }
+
+  return files.map(finishFile);
+}
+
+function startFile(files: ParsedFile[], gitPaths?: [string, string]): ParsedFile {
+  const file: ParsedFile = {
+    fileDiff: {
+      oldPath: '',
+      newPath: '',
+      status: FileStatus.MODIFIED,
+      isBinary: false,
+      chunks: []
+    },
+    gitPaths
+  };
+
+  files.push(file);
+  return file;
+}
+
+/**
+ * Read one of the extended header lines between "diff --git" and the first chunk
+ */
+function parseExtendedHeader(file: ParsedFile, line: string): void {
+  const { fileDiff } = file;
+  const match = line.match(/^(old mode|new mode|deleted file mode|new file mode|rename from|rename to|copy from|copy to|similarity index|index|mode) (.*)$/);
+
+  if (!match) {
+    if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      fileDiff.isBinary = true;
+
+      const paths = line.match(/^Binary files (.*) and (.*) differ$/);
+      if (paths) {
+        file.oldPath = file.oldPath ?? parseHeaderPath(paths[1], 'a/');
+        file.newPath = file.newPath ?? parseHeaderPath(paths[2], 'b/');
       }
-      // Ignore other lines (like "No newline at end of file")
     }
+    return;
   }
-  
-  // Add the last file and chunk if they exist
-  if (currentFile) {
-    if (currentChunk && currentChunk.changes) {
-      currentFile.chunks = currentFile.chunks || [];
-      currentFile.chunks.push(currentChunk as DiffChunk);
-    }
-    results.push(currentFile as FileDiff);
+
+  const [, header, value] = match;
+  switch (header) {
+    case 'old mode':
+      fileDiff.oldMode = value;
+      break;
+    case 'new mode':
+      fileDiff.newMode = value;
+      break;
+    case 'deleted file mode':
+      // Combined diffs list the mode in every parent: "deleted file mode <p1>,<p2>"
+      fileDiff.status = FileStatus.DELETED;
+      fileDiff.oldMode = value.split(',')[0];
+      break;
+    case 'new file mode':
+      fileDiff.status = FileStatus.ADDED;
+      fileDiff.newMode = value;
+      break;
+    case 'rename from':
+    case 'copy from':
+      fileDiff.status = header === 'rename from' ? FileStatus.RENAMED : FileStatus.COPIED;
+      file.sourcePath = unquotePath(value);
+      break;
+    case 'rename to':
+    case 'copy to':
+      file.targetPath = unquotePath(value);
+      break;
+    case 'similarity index':
+      fileDiff.similarity = parseInt(value, 10);
+      break;
+    case 'index': {
+      // "index <old>..<new> <mode>" names the mode when it did not change;
+      // combined diffs have a blob per parent: "index <p1>,<p2>..<merge>"
+      const [blobs, mode] = value.split(' ');
+      if (mode) {
+        fileDiff.oldMode = fileDiff.oldMode ?? mode;
+        fileDiff.newMode = fileDiff.newMode ?? mode;
+      }
+      if (blobs.includes(',')) {
+        fileDiff.parentCount = blobs.split('..')[0].split(',').length;
+      }
+      break;
+    }
+    case 'mode': {
+      // Combined diffs give the modes that differ as "mode <p1>,<p2>..<merge>", with zeros for a missing file
+      const [parentModes, mode] = value.split('..');
+      const firstParentMode = parentModes.split(',')[0];
+      if (!/^0+$/.test(firstParentMode)) {
+        fileDiff.oldMode = firstParentMode;
+      }
+      fileDiff.newMode = mode;
+      break;
+    }
   }
-  
-  return results;
-}
\ No newline at end of file
+}
+
+/**
+ * Settle the paths and status of a parsed file. An added file takes its new
+ * path on both sides and a deleted one its old path, as the other side is /dev/null.
+ */
+function finishFile(file: ParsedFile): FileDiff {
+  const { fileDiff } = file;
+  const oldPath = file.sourcePath ?? file.oldPath ?? file.gitPaths?.[0] ?? '';
+  const newPath = file.targetPath ?? file.newPath ?? file.gitPaths?.[1] ?? '';
+
+  if (oldPath === DEV_NULL) {
+    fileDiff.status = FileStatus.ADDED;
+  } else if (newPath === DEV_NULL) {
+    fileDiff.status = FileStatus.DELETED;
+  }
+
+  fileDiff.oldPath = oldPath === DEV_NULL ? newPath : oldPath;
+  fileDiff.newPath = newPath === DEV_NULL ? oldPath : newPath;
+
+  return fileDiff;
+}
+
+/**
+ * Parse a chunk header: "@@ -1,5 +2,6 @@ optional section heading".
+ * A combined diff has a range per parent and one more "@" than it has
+ * parents: "@@@ -1,5 -1,4 +1,6 @@@". A missing line count means one line.
+ */
+function parseChunkHeader(line: string): DiffChunk | undefined {
+  const match = line.match(/^(@@+) ((?:-\d+(?:,\d+)? )+)\+(\d+)(?:,(\d+))? \1/);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [, signs, oldRanges, newStart, newLines] = match;
+  const parents = oldRanges.trim().split(' ').map(parseRange);
+
+  if (parents.length !== signs.length - 1) {
+    return undefined;
+  }
+
+  const chunk: DiffChunk = {
+    oldStart: parents[0].start,
+    oldLines: parents[0].lines,
+    newStart: parseInt(newStart, 10),
+    newLines: parseInt(newLines ?? '1', 10),
+    changes: []
+  };
+
+  if (parents.length > 1) {
+    chunk.parents = parents;
+  }
+  return chunk;
+}
+
+/**
+ * Parse one side's range of a chunk header, e.g. "-1,5"
+ */
+function parseRange(range: string): ParentRange {
+  const [start, lines] = range.substring(1).split(',');
+  return { start: parseInt(start, 10), lines: parseInt(lines ?? '1', 10) };
+}
+
+/**
+ * Parse a line of a combined chunk. The merge has the line unless a column
+ * is '-'; it is an addition if any column is '+', i.e. some parent lacks it.
+ * Line numbers are left to the caller.
+ */
+function parseCombinedLine(line: string, parentCount: number): DiffChange | undefined {
+  // Some tools strip the spaces of empty context lines
+  const markers = line.substring(0, parentCount).padEnd(parentCount);
+
+  if (!/^[ +-]+$/.test(markers) || (markers.includes('+') && markers.includes('-'))) {
+    return undefined;
+  }
+
+  const isDelete = markers.includes('-');
+  const isAdd = markers.includes('+');
+  const change: DiffChange = {
+    type: isDelete ? ChangeType.DELETE : isAdd ? ChangeType.ADD : ChangeType.NORMAL,
+    content: line.substring(parentCount),
+    parentMarkers: markers
+  };
+
+  // Every column marked means no parent had it this way
+  if (markers === (isDelete ? '-' : '+').repeat(parentCount)) {
+    change.isEvilMerge = true;
+  }
+  return change;
+}
+
+/**
+ * Split the paths of a "diff --git a/<old> b/<new>" line. Unquoted paths
+ * may hold spaces, so when neither is quoted the two are assumed to be the
+ * same path, which they are unless the file was renamed or copied; the
+ * rename and copy headers give the paths in that case.
+ */
+function parseGitPaths(text: string): [string, string] | undefined {
+  let oldPath: string;
+  let newPath: string;
+
+  if (text.startsWith('"')) {
+    const quoted = readQuotedPath(text);
+    if (!quoted) {
+      return undefined;
+    }
+    oldPath = quoted.path;
+    newPath = text.substring(quoted.length + 1);
+  } else if (text.includes(' "')) {
+    const separator = text.indexOf(' "');
+    oldPath = text.substring(0, separator);
+    newPath = text.substring(separator + 1);
+  } else {
+    const half = (text.length - 1) / 2;
+    const isSamePath = Number.isInteger(half) && text.substring(2, half) === text.substring(half + 3);
+    const separator = isSamePath ? half : text.indexOf(' b/');
+    if (separator < 0) {
+      return undefined;
+    }
+    oldPath = text.substring(0, separator);
+    newPath = text.substring(separator + 1);
+  }
+
+  return [stripPrefix(unquotePath(oldPath), 'a/'), stripPrefix(unquotePath(newPath), 'b/')];
+}
+
+/**
+ * Parse the path of a "---" or "+++" line. Git ends paths that hold spaces
+ * with a tab, and plain diffs follow the path with a tab and a timestamp.
+ */
+function parseHeaderPath(text: string, prefix: string): string {
+  const path = text.startsWith('"') ? unquotePath(text) : text.split('\t')[0];
+  return path === DEV_NULL ? path : stripPrefix(path, prefix);
+}
+
+function stripPrefix(path: string, prefix: string): string {
+  return path.startsWith(prefix) ? path.substring(prefix.length) : path;
+}
+
+/**
+ * Quote a path the way git does in diff headers when it holds control,
+ * quote, backslash or non-ASCII characters; other paths are returned as they are
+ */
+export function quotePath(path: string): string {
+  const bytes = Buffer.from(path, 'utf-8');
+  const needsQuotes = (byte: number) => byte < 0x20 || byte >= 0x7f || byte === 0x22 || byte === 0x5c;
+
+  if (!bytes.some(needsQuotes)) {
+    return path;
+  }
+
+  let quoted = '"';
+  for (const byte of bytes) {
+    const escape = Object.keys(ESCAPED_BYTES).find(key => ESCAPED_BYTES[key] === byte);
+    if (escape) {
+      quoted += `\\${escape}`;
+    } else if (needsQuotes(byte)) {
+      quoted += `\\${byte.toString(8).padStart(3, '0')}`;
+    } else {
+      quoted += String.fromCharCode(byte);
+    }
+  }
+
+  return `${quoted}"`;
+}
+
+/**
+ * Decode a path git quoted because it holds special or non-ASCII
+ * characters, e.g. "a/\344\270\255.txt". Unquoted paths are returned as they are.
+ */
+function unquotePath(text: string): string {
+  return text.startsWith('"') ? readQuotedPath(text)?.path ?? text : text;
+}
+
+/**
+ * Read a quoted path from the start of text, giving the path and the
+ * length of its quoted form. Escapes are decoded to bytes first, as
+ * octal escapes spell out the UTF-8 bytes of a character one by one.
+ */
+function readQuotedPath(text: string): { path: string; length: number } | undefined {
+  const bytes: number[] = [];
+
+  for (let i = 1; i < text.length; i++) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+
+    if (char === '"') {
+      return { path: Buffer.from(bytes).toString('utf-8'), length: i + 1 };
+    }
+
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf-8'));
+      // Characters outside the BMP take two UTF-16 units
+      i += char.length - 1;
+      continue;
+    }
+
+    const escape = text.substring(i + 1, i + 4);
+    const next = text[i + 1];
+    if (/^[0-7]{3}$/.test(escape)) {
+      bytes.push(parseInt(escape, 8));
+      i += 3;
+    } else if (next !== undefined) {
+      bytes.push(ESCAPED_BYTES[next] ?? next.charCodeAt(0));
+      i++;
+    }
+  }
+
+  // No closing quote
+  return undefined;
+}
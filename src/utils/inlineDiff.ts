@@ -0,0 +1,79 @@
+import { diffChars, diffWordsWithSpace } from 'diff';
+import { ChangeType, DiffChange, DiffChunk, DiffSegment, InlineDiffGranularity } from '../models/gitTypes';
+
+// Lines longer than this are left without segments to keep diffing fast
+const MAX_INLINE_DIFF_LINE_LENGTH = 1000;
+
+/**
+ * Add word or character segments to modified lines.
+ * Within each run of deleted lines followed by added lines, the n-th deleted
+ * line is paired with the n-th added line and both get segments marking the
+ * parts that changed between them.
+ */
+export function addInlineSegments(
+  chunks: DiffChunk[],
+  granularity: InlineDiffGranularity = InlineDiffGranularity.WORD
+): void {
+  for (const chunk of chunks) {
+    const changes = chunk.changes;
+    let i = 0;
+
+    while (i < changes.length) {
+      // Collect a run of deletions and the additions right after it
+      const deleted: DiffChange[] = [];
+      while (i < changes.length && changes[i].type === ChangeType.DELETE) {
+        deleted.push(changes[i++]);
+      }
+
+      const added: DiffChange[] = [];
+      while (i < changes.length && changes[i].type === ChangeType.ADD) {
+        added.push(changes[i++]);
+      }
+
+      if (deleted.length === 0 && added.length === 0) {
+        i++;
+        continue;
+      }
+
+      const pairs = Math.min(deleted.length, added.length);
+      for (let p = 0; p < pairs; p++) {
+        setSegments(deleted[p], added[p], granularity);
+      }
+    }
+  }
+}
+
+/**
+ * Compute the segments of a deleted line and the added line that replaced it
+ */
+function setSegments(
+  deletedLine: DiffChange,
+  addedLine: DiffChange,
+  granularity: InlineDiffGranularity
+): void {
+  if (deletedLine.content.length > MAX_INLINE_DIFF_LINE_LENGTH ||
+      addedLine.content.length > MAX_INLINE_DIFF_LINE_LENGTH) {
+    return;
+  }
+
+  const parts = granularity === InlineDiffGranularity.CHAR ?
+    diffChars(deletedLine.content, addedLine.content) :
+    diffWordsWithSpace(deletedLine.content, addedLine.content);
+
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+
+  for (const part of parts) {
+    if (part.added) {
+      newSegments.push({ type: ChangeType.ADD, content: part.value });
+    } else if (part.removed) {
+      oldSegments.push({ type: ChangeType.DELETE, content: part.value });
+    } else {
+      oldSegments.push({ type: ChangeType.NORMAL, content: part.value });
+      newSegments.push({ type: ChangeType.NORMAL, content: part.value });
+    }
+  }
+
+  deletedLine.segments = oldSegments;
+  addedLine.segments = newSegments;
+}
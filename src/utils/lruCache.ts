@@ -0,0 +1,71 @@
+/**
+ * Least-recently-used cache bounded by the total size of its values.
+ * Values larger than the whole cache are not stored.
+ */
+export class LruCache<K, V> {
+  // Map iteration order is insertion order, so the first entry is the least recently used
+  private entries: Map<K, V> = new Map();
+  private totalSize: number = 0;
+
+  constructor(
+    private readonly maxSize: number,
+    private readonly sizeOf: (value: V) => number = () => 1
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+
+    if (value !== undefined) {
+      // Move the entry to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+
+    return value;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  set(key: K, value: V): void {
+    this.delete(key);
+
+    const size = this.sizeOf(value);
+    if (size > this.maxSize) {
+      return;
+    }
+
+    this.entries.set(key, value);
+    this.totalSize += size;
+
+    // Evict the least recently used entries until the cache fits again
+    for (const [oldestKey] of this.entries) {
+      if (this.totalSize <= this.maxSize) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: K): boolean {
+    const value = this.entries.get(key);
+
+    if (value === undefined) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.totalSize -= this.sizeOf(value);
+    return true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalSize = 0;
+  }
+}
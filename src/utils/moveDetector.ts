@@ -0,0 +1,167 @@
+import { ChangeType, DiffChange, DiffChunk, FileDiff, MoveDirection } from '../models/gitTypes';
+
+// Minimum number of letters and digits in a moved block, so that runs of
+// braces or blank lines are not reported as moves (same rule as git's --color-moved)
+const MIN_MOVED_ALNUM_CHARS = 20;
+
+// Skip detection when there are more changed lines than this, as matching is quadratic
+const MAX_MOVE_DETECTION_LINES = 5000;
+
+/**
+ * Options for moved code detection
+ */
+export interface MoveDetectionOptions {
+  // Minimum number of lines in a moved block
+  minLines: number;
+  // Compare lines with all whitespace removed
+  ignoreWhitespace: boolean;
+}
+
+/**
+ * A changed line with its position and comparison key
+ */
+interface RunLine {
+  change: DiffChange;
+  line: number;
+  key: string;
+}
+
+/**
+ * Consecutive added or deleted lines within one chunk
+ */
+interface LineRun {
+  filePath: string;
+  chunk: DiffChunk;
+  lines: RunLine[];
+}
+
+/**
+ * Find blocks in a file diff that were moved rather than rewritten.
+ * Added blocks are matched against blocks deleted in the same file or in
+ * the other files of the comparison, and deleted blocks against added ones.
+ * Matched lines become MOVED_IN or MOVED_OUT and their chunk records the move.
+ */
+export function detectMovedCode(
+  fileDiff: FileDiff,
+  otherDiffs: FileDiff[],
+  options: MoveDetectionOptions
+): void {
+  const deletedRuns = collectRuns(fileDiff, ChangeType.DELETE, options);
+  const addedRuns = collectRuns(fileDiff, ChangeType.ADD, options);
+  const otherDeletedRuns = otherDiffs.flatMap(d => collectRuns(d, ChangeType.DELETE, options));
+  const otherAddedRuns = otherDiffs.flatMap(d => collectRuns(d, ChangeType.ADD, options));
+
+  const changedLines = [...deletedRuns, ...addedRuns, ...otherDeletedRuns, ...otherAddedRuns]
+    .reduce((count, run) => count + run.lines.length, 0);
+  if (changedLines > MAX_MOVE_DETECTION_LINES) {
+    return;
+  }
+
+  for (const run of addedRuns) {
+    matchRun(run, [...deletedRuns, ...otherDeletedRuns], MoveDirection.IN, options);
+  }
+
+  for (const run of deletedRuns) {
+    matchRun(run, [...addedRuns, ...otherAddedRuns], MoveDirection.OUT, options);
+  }
+}
+
+/**
+ * Collect the runs of added or deleted lines of a file diff, with
+ * new-side line numbers for added lines and old-side ones for deleted lines
+ */
+function collectRuns(fileDiff: FileDiff, type: ChangeType, options: MoveDetectionOptions): LineRun[] {
+  const runs: LineRun[] = [];
+  const filePath = type === ChangeType.ADD ? fileDiff.newPath : fileDiff.oldPath;
+
+  for (const chunk of fileDiff.chunks) {
+    let current: LineRun | null = null;
+
+    for (const change of chunk.changes) {
+      if (change.type === type) {
+        if (!current) {
+          current = { filePath, chunk, lines: [] };
+          runs.push(current);
+        }
+
+        current.lines.push({
+          change,
+          line: (type === ChangeType.ADD ? change.newLineNumber : change.oldLineNumber) ?? 0,
+          key: options.ignoreWhitespace ? change.content.replace(/\s+/g, '') : change.content
+        });
+      } else {
+        current = null;
+      }
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Find the longest blocks of a run that also appear in one of the candidate runs,
+ * mark their lines as moved and record the move on the run's chunk
+ */
+function matchRun(
+  run: LineRun,
+  candidates: LineRun[],
+  direction: MoveDirection,
+  options: MoveDetectionOptions
+): void {
+  let i = 0;
+
+  while (i < run.lines.length) {
+    let best: { candidate: LineRun, start: number, length: number } | undefined;
+
+    for (const candidate of candidates) {
+      for (let j = 0; j < candidate.lines.length; j++) {
+        let length = 0;
+        while (
+          i + length < run.lines.length &&
+          j + length < candidate.lines.length &&
+          run.lines[i + length].key === candidate.lines[j + length].key
+        ) {
+          length++;
+        }
+
+        if (length > (best ? best.length : 0)) {
+          best = { candidate, start: j, length };
+        }
+      }
+    }
+
+    if (!best || !isMoveSized(run.lines.slice(i, i + best.length), options)) {
+      i++;
+      continue;
+    }
+
+    const movedLines = run.lines.slice(i, i + best.length);
+    for (const movedLine of movedLines) {
+      movedLine.change.type = direction === MoveDirection.IN ? ChangeType.MOVED_IN : ChangeType.MOVED_OUT;
+    }
+
+    run.chunk.moves = run.chunk.moves || [];
+    run.chunk.moves.push({
+      direction,
+      startLine: movedLines[0].line,
+      lineCount: movedLines.length,
+      linkedPath: best.candidate.filePath,
+      linkedStartLine: best.candidate.lines[best.start].line
+    });
+
+    i += best.length;
+  }
+}
+
+/**
+ * Whether matched lines are substantial enough to count as a moved block
+ */
+function isMoveSized(lines: RunLine[], options: MoveDetectionOptions): boolean {
+  if (lines.length < options.minLines) {
+    return false;
+  }
+
+  const alnumChars = lines
+    .reduce((count, line) => count + line.key.replace(/[^a-zA-Z0-9]/g, '').length, 0);
+  return alnumChars >= MIN_MOVED_ALNUM_CHARS;
+}
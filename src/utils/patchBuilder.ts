@@ -0,0 +1,193 @@
+import { ChangeType, DiffChange, DiffChunk, FileDiff, FileStatus, HunkSelection } from '../models/gitTypes';
+import { quotePath } from './diffParser';
+
+// Follows a patch line that has no newline at the end of the file
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Build a patch for `git apply` from selected chunks of a file diff.
+ * Lines left out of a selection are turned into context or dropped, so the
+ * patch still applies to the side it is applied to: the old side normally,
+ * the new side when it will be applied in reverse (`reverse` set).
+ * Returns an empty string if nothing is selected.
+ */
+export function buildPatch(fileDiff: FileDiff, selections: HunkSelection[], reverse: boolean = false): string {
+  const hunks: string[] = [];
+  // Lines added minus lines deleted by the hunks so far, to place the following hunks
+  let offset = 0;
+
+  const sorted = [...selections].sort((a, b) => a.chunkIndex - b.chunkIndex);
+  for (const selection of sorted) {
+    const chunk = fileDiff.chunks[selection.chunkIndex];
+    if (!chunk) {
+      continue;
+    }
+
+    const lines = selectLines(chunk, selection, reverse);
+    if (!lines.some(line => line.startsWith('+') || line.startsWith('-'))) {
+      continue;
+    }
+
+    const oldLines = lines.filter(line => line.startsWith(' ') || line.startsWith('-')).length;
+    const newLines = lines.filter(line => line.startsWith(' ') || line.startsWith('+')).length;
+
+    // The side the patch applies to keeps its position; the other follows from the offset
+    let oldStart: number;
+    let newStart: number;
+    if (reverse) {
+      newStart = chunk.newStart;
+      oldStart = toStart(toFirstLine(newStart, chunk.newLines) - offset, oldLines);
+    } else {
+      oldStart = chunk.oldStart;
+      newStart = toStart(toFirstLine(oldStart, chunk.oldLines) + offset, newLines);
+    }
+    offset += newLines - oldLines;
+
+    hunks.push(`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@\n${lines.join('\n')}\n`);
+  }
+
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  return getFileHeader(fileDiff, isWholeFileSelected(fileDiff, selections)) + hunks.join('');
+}
+
+/**
+ * Apply selected chunks of a file diff to the old content of the file,
+ * giving the old content with only the selected changes
+ */
+export function applySelections(oldContent: string, fileDiff: FileDiff, selections: HunkSelection[]): string {
+  const lines = oldContent.split('\n');
+
+  // Apply from the bottom up so the chunks above keep their line numbers
+  const sorted = [...selections].sort((a, b) => b.chunkIndex - a.chunkIndex);
+  for (const selection of sorted) {
+    const chunk = fileDiff.chunks[selection.chunkIndex];
+    if (!chunk) {
+      continue;
+    }
+
+    // Unselected deletions stay as context, so the chunk still covers all its old lines
+    const newLines = selectLines(chunk, selection, false)
+      .filter(line => line.startsWith(' ') || line.startsWith('+'))
+      .map(line => line.substring(1));
+    lines.splice(toFirstLine(chunk.oldStart, chunk.oldLines) - 1, chunk.oldLines, ...newLines);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Whether the selections cover every changed line of the file
+ */
+function isWholeFileSelected(fileDiff: FileDiff, selections: HunkSelection[]): boolean {
+  return fileDiff.chunks.every((chunk, chunkIndex) => {
+    const selection = selections.find(s => s.chunkIndex === chunkIndex);
+    return selection !== undefined && (!selection.lines || chunk.changes.every((change, i) =>
+      change.type === ChangeType.NORMAL || selection.lines!.includes(i)));
+  });
+}
+
+/**
+ * Get the lines of a chunk for a patch, prefixed with their diff marker
+ */
+function selectLines(chunk: DiffChunk, selection: HunkSelection, reverse: boolean): string[] {
+  const selected = selection.lines ? new Set(selection.lines) : undefined;
+  const entries: { marker: string, change: DiffChange }[] = [];
+
+  chunk.changes.forEach((change: DiffChange, i: number) => {
+    if (change.type === ChangeType.NORMAL) {
+      entries.push({ marker: ' ', change });
+      return;
+    }
+
+    // Moved lines are added or deleted like any other in the file's own patch
+    const isAdded = change.type === ChangeType.ADD || change.type === ChangeType.MOVED_IN;
+    if (!selected || selected.has(i)) {
+      entries.push({ marker: isAdded ? '+' : '-', change });
+      return;
+    }
+
+    // An unselected line stays as it is on the side the patch applies to:
+    // context if it is there, left out otherwise
+    const isOnTargetSide = reverse ? isAdded : !isAdded;
+    if (isOnTargetSide) {
+      entries.push({ marker: ' ', change });
+    }
+  });
+
+  const lines: string[] = [];
+  entries.forEach(({ marker, change }, i) => {
+    if (!change.noNewline) {
+      lines.push(`${marker}${change.content}`);
+      return;
+    }
+
+    // A line without a newline must stay the last of its side. Leaving changes
+    // out can put lines after it, so it ends with a newline on that side instead.
+    const later = entries.slice(i + 1);
+    const oldContinues = later.some(entry => entry.marker !== '+');
+    const newContinues = later.some(entry => entry.marker !== '-');
+
+    if (marker === ' ' && (oldContinues || newContinues)) {
+      lines.push(`-${change.content}`);
+      if (!oldContinues) {
+        lines.push(NO_NEWLINE_MARKER);
+      }
+      lines.push(`+${change.content}`);
+      if (!newContinues) {
+        lines.push(NO_NEWLINE_MARKER);
+      }
+      return;
+    }
+
+    lines.push(`${marker}${change.content}`);
+    const sideContinues = marker === '+' ? newContinues : oldContinues;
+    if (!sideContinues) {
+      lines.push(NO_NEWLINE_MARKER);
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Get the headers of a file's patch. Additions and deletions only create or
+ * remove the file when the patch holds all of their lines.
+ */
+function getFileHeader(fileDiff: FileDiff, isWholeFile: boolean): string {
+  const { status, oldMode, newMode } = fileDiff;
+  const oldPath = quotePath(`a/${fileDiff.oldPath}`);
+  const newPath = quotePath(`b/${fileDiff.newPath}`);
+  const header = [`diff --git ${oldPath} ${newPath}`];
+
+  if (status === FileStatus.ADDED && isWholeFile) {
+    header.push(`new file mode ${newMode || '100644'}`, '--- /dev/null', `+++ ${toHeaderPath(newPath)}`);
+  } else if (status === FileStatus.DELETED && isWholeFile) {
+    header.push(`deleted file mode ${oldMode || '100644'}`, `--- ${toHeaderPath(oldPath)}`, '+++ /dev/null');
+  } else {
+    if (status === FileStatus.RENAMED || status === FileStatus.COPIED) {
+      const kind = status === FileStatus.RENAMED ? 'rename' : 'copy';
+      header.push(`${kind} from ${quotePath(fileDiff.oldPath)}`, `${kind} to ${quotePath(fileDiff.newPath)}`);
+    }
+    header.push(`--- ${toHeaderPath(oldPath)}`, `+++ ${toHeaderPath(newPath)}`);
+  }
+
+  return header.join('\n') + '\n';
+}
+
+// Git ends an unquoted path that holds spaces with a tab in the "---" and "+++" lines
+function toHeaderPath(path: string): string {
+  return !path.startsWith('"') && path.includes(' ') ? `${path}\t` : path;
+}
+
+// An empty side of a hunk is numbered by the line before it, so convert
+// between header start numbers and the first line the hunk covers
+function toFirstLine(start: number, count: number): number {
+  return count === 0 ? start + 1 : start;
+}
+
+function toStart(firstLine: number, count: number): number {
+  return count === 0 ? firstLine - 1 : firstLine;
+}
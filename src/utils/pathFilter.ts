@@ -0,0 +1,30 @@
+/**
+ * Convert include and exclude patterns to git pathspecs.
+ * Patterns are globs, where `**` crosses directories and a directory
+ * matches everything below it. Patterns starting with `:(` are git
+ * pathspecs with magic, e.g. `:(icase)docs`, and are used as written.
+ */
+export function getPathspecs(includePaths: string[], excludePaths: string[]): string[] {
+  return [
+    ...includePaths.map(pattern => toPathspec(pattern, false)),
+    ...excludePaths.map(pattern => toPathspec(pattern, true))
+  ];
+}
+
+/**
+ * Split a comma-separated list of patterns as typed by the user
+ */
+export function parsePatternList(text: string): string[] {
+  return text
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean);
+}
+
+function toPathspec(pattern: string, exclude: boolean): string {
+  if (pattern.startsWith(':(')) {
+    return exclude ? `:(exclude,${pattern.substring(2)}` : pattern;
+  }
+
+  return exclude ? `:(exclude,glob)${pattern}` : `:(glob)${pattern}`;
+}
@@ -0,0 +1,94 @@
+import { GitCommit, GitReference, GitReferenceType, GitStash, RepositoryChangeKind } from '../models/gitTypes';
+
+/**
+ * Get a display label for a reference.
+ * The index and working tree are named explicitly so the views
+ * make clear which side of a comparison they are.
+ */
+export function getRefLabel(ref: GitReference): string {
+  switch (ref.type) {
+    case GitReferenceType.STAGED:
+      return 'Index (Staged)';
+    case GitReferenceType.WORKING_TREE:
+      return 'Working Tree';
+    default:
+      return ref.name;
+  }
+}
+
+/**
+ * Get a reference to a commit
+ */
+export function getCommitRef(commit: GitCommit): GitReference {
+  return {
+    type: GitReferenceType.COMMIT,
+    name: commit.shortHash,
+    id: commit.hash
+  };
+}
+
+/**
+ * Get a reference to the first parent of a commit, so that comparing it
+ * with the commit shows only the changes that commit made
+ */
+export function getParentRef(commit: GitCommit): GitReference {
+  return {
+    type: GitReferenceType.COMMIT,
+    name: `${commit.shortHash}^`,
+    id: `${commit.hash}^`
+  };
+}
+
+/**
+ * Get a reference to one parent of a merge commit, numbered from 1 as in `<merge>^<n>`
+ */
+export function getMergeParentRef(mergeRef: GitReference, parentHash: string, parentNumber: number): GitReference {
+  return {
+    type: GitReferenceType.COMMIT,
+    name: `${getRefLabel(mergeRef)}^${parentNumber}`,
+    id: parentHash
+  };
+}
+
+/**
+ * Get a reference to a stash entry. The commit hash is kept as the id
+ * because stash@{n} names shift when stashes are pushed or dropped.
+ */
+export function getStashRef(stash: GitStash): GitReference {
+  return {
+    type: GitReferenceType.STASH,
+    name: stash.name,
+    id: stash.hash
+  };
+}
+
+/**
+ * Get a reference to the commit a stash was made on, so that comparing it
+ * with the stash shows the stashed changes
+ */
+export function getStashParentRef(stashRef: GitReference): GitReference {
+  return {
+    type: GitReferenceType.COMMIT,
+    name: `${stashRef.name}^`,
+    id: `${stashRef.id || stashRef.name}^`
+  };
+}
+
+/**
+ * Check whether what a reference points to may have moved with a change to the repository.
+ * Commits and stashes picked by their hash never move.
+ */
+export function isAffectedByChange(ref: GitReference, kinds: RepositoryChangeKind[]): boolean {
+  switch (ref.type) {
+    case GitReferenceType.WORKING_TREE:
+      // The index decides which working tree files are conflicted
+      return kinds.includes(RepositoryChangeKind.WORKING_TREE) || kinds.includes(RepositoryChangeKind.INDEX);
+    case GitReferenceType.STAGED:
+      return kinds.includes(RepositoryChangeKind.INDEX);
+    case GitReferenceType.COMMIT:
+    case GitReferenceType.STASH:
+      return !ref.id && kinds.includes(RepositoryChangeKind.REFS);
+    default:
+      return kinds.includes(RepositoryChangeKind.REFS);
+  }
+}